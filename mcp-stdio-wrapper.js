@@ -1,22 +1,218 @@
 #!/usr/bin/env node
 /**
  * Stdio wrapper for windsurf-feedback-panel MCP
- * 使用轮询机制等待用户反馈，支持长时间等待
+ * 通过 /wait 长连接等待用户反馈（旧版扩展回退到轮询），支持长时间等待
  */
 
 const http = require('http');
 const readline = require('readline');
+const tty = require('tty');
 const crypto = require('crypto');
 const fs = require('fs');
 const path = require('path');
 const os = require('os');
 
+// wrapper 版本，扩展的 Show Server Status 据此判断 ~/.panel-feedback 中的副本是否与扩展一致，修改本文件时请递增
+const WRAPPER_VERSION = '2.5.5';
+
 // 配置
 const REGISTRY_DIR = path.join(os.homedir(), '.panel-feedback');
+const SERVERS_DIR = path.join(REGISTRY_DIR, 'servers');
 const DEFAULT_PORT = 19876;
-const POLL_INTERVAL = 500;  // 500ms 轮询间隔
+const POLL_INTERVAL = 500;  // 500ms 轮询间隔（仅旧版扩展）
 const MAX_POLL_TIME = 86400000 * 7;  // 最长等待 7 天
-const SOFT_TIMEOUT = 300000;  // 5分钟软超时，自动返回让AI继续
+const SOFT_TIMEOUT = 300000;  // 5分钟软超时，自动返回让AI继续（客户端提供 progressToken 时不启用）
+const PROGRESS_INTERVAL = 15000;  // 进度通知间隔
+const HEARTBEAT_TIMEOUT = 45000;  // 超过该时间未收到 /wait 心跳则视为断线
+const RECONNECT_MIN_DELAY = 500;
+const RECONNECT_MAX_DELAY = 10000;
+// IDE 尚未启动时提交请求的最长重试时间，环境变量 PANEL_FEEDBACK_STARTUP_TIMEOUT（秒）可覆盖，0 表示不等待
+const STARTUP_TIMEOUT = parseSeconds(process.env.PANEL_FEEDBACK_STARTUP_TIMEOUT, 120) * 1000;
+// 没有可连接的 IDE 面板时在控制终端（/dev/tty）上提问，环境变量 PANEL_FEEDBACK_TTY_FALLBACK=1 开启
+const TTY_FALLBACK = ['1', 'true', 'yes'].includes(String(process.env.PANEL_FEEDBACK_TTY_FALLBACK || '').toLowerCase());
+
+// 支持的 MCP 协议版本，第一个为最新版本
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+const LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+let clientLogLevel = 'info';
+let clientInfo;  // initialize 时的 { name, version }，随请求转发给扩展，面板据此显示来源
+
+// 事件日志，格式与轮转规则需与 src/eventLog.ts 保持一致
+const EVENT_LOG_DIR = path.join(REGISTRY_DIR, 'logs');
+const EVENT_LOG_FILE = path.join(EVENT_LOG_DIR, 'events.jsonl');
+const EVENT_LOG_MAX_SIZE = 1024 * 1024;  // 超过 1MB 轮转
+const EVENT_LOG_MAX_FILES = 3;  // 保留 events.1.jsonl ~ events.3.jsonl
+const EVENT_LOG_LEVELS = ['debug', 'info', 'warn', 'error'];
+const EVENT_LOG_LEVEL = EVENT_LOG_LEVELS.includes(process.env.PANEL_FEEDBACK_LOG_LEVEL)
+    ? process.env.PANEL_FEEDBACK_LOG_LEVEL
+    : 'info';
+
+// 工具定义，修改时请同步 src/mcpTools.ts
+const TOOLS = [
+    {
+        name: 'panel_feedback',
+        description: '在 IDE 侧边栏显示消息并获取用户反馈。强烈建议提供 predefined_options 让用户快速选择，提升交互体验。支持图片上传。',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                message: {
+                    type: 'string',
+                    description: '要显示给用户的消息，支持 Markdown 格式'
+                },
+                predefined_options: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: '预定义的快捷选项按钮列表，用户可以一键点击选择。建议提供 2-5 个常用选项，如 ["继续", "取消", "查看详情"] 或 ["是", "否"]。这能大幅提升用户体验！'
+                },
+                resume_token: {
+                    type: 'string',
+                    description: '上次调用软超时返回的 resume_token，传入后继续等待原来的问题，不会重复显示'
+                },
+                workspace: {
+                    type: 'string',
+                    description: '当前项目的绝对路径。打开了多个 IDE 窗口时，用它把消息发送到对应项目的面板'
+                },
+                conversation_id: {
+                    type: 'string',
+                    description: '当前对话的标识（如会话 id）。同时运行多个 AI 对话时，面板上会显示在消息的来源徽标中'
+                },
+                conversation_title: {
+                    type: 'string',
+                    description: '当前对话的简短标题（如 "refactor-auth"），优先于 conversation_id 显示在来源徽标中'
+                }
+            },
+            required: ['message']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                selectedOptions: { type: 'array', items: { type: 'string' }, description: '用户点击的 predefined_options' },
+                text: { type: 'string', description: '用户输入的文本（不含附加的 Rules）' },
+                mentionedFiles: { type: 'array', items: { type: 'string' }, description: '用户 @ 引用或拖入的文件绝对路径' },
+                images: { type: 'integer', description: '附带的图片数量，图片本身在 content 中' },
+                endedByUser: { type: 'boolean', description: '用户点击了结束对话' },
+                rulesAppended: { type: 'boolean', description: '文本 content 末尾是否附加了 Rules' },
+                timedOut: { type: 'boolean', description: '等待超时，用户尚未回复' },
+                resumeToken: { type: 'string', description: '超时时返回，再次调用时作为 resume_token 传入' }
+            },
+            required: ['selectedOptions', 'text', 'mentionedFiles', 'images', 'endedByUser', 'rulesAppended']
+        }
+    }, {
+        name: 'panel_form',
+        description: '在 IDE 侧边栏显示一个表单，一次性向用户收集多个结构化的值（文本、数字、开关、下拉选项）。返回 JSON 文本，同时提供 structuredContent。',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                message: {
+                    type: 'string',
+                    description: '显示在表单上方的说明，支持 Markdown 格式'
+                },
+                schema: {
+                    type: 'object',
+                    description: '表单定义，JSON Schema 子集：{ "type": "object", "properties": { 字段名: { "type": "string" | "number" | "integer" | "boolean", "title", "description", "enum", "enumNames", "default", "minimum", "maximum", "minLength", "maxLength", "pattern" } }, "required": [字段名] }。带 enum 的字段显示为下拉框，boolean 显示为复选框',
+                    properties: {
+                        type: { type: 'string', enum: ['object'] },
+                        properties: { type: 'object' },
+                        required: { type: 'array', items: { type: 'string' } }
+                    },
+                    required: ['properties']
+                },
+                resume_token: {
+                    type: 'string',
+                    description: '上次调用软超时返回的 resume_token，传入后继续等待原来的问题，不会重复显示'
+                },
+                workspace: {
+                    type: 'string',
+                    description: '当前项目的绝对路径。打开了多个 IDE 窗口时，用它把表单发送到对应项目的面板'
+                },
+                conversation_id: {
+                    type: 'string',
+                    description: '当前对话的标识（如会话 id）。同时运行多个 AI 对话时，面板上会显示在消息的来源徽标中'
+                },
+                conversation_title: {
+                    type: 'string',
+                    description: '当前对话的简短标题（如 "refactor-auth"），优先于 conversation_id 显示在来源徽标中'
+                }
+            },
+            required: ['schema']
+        }
+    }, {
+        name: 'panel_confirm',
+        description: '执行危险或不可逆的操作（如 git push --force、删除文件、数据库迁移）前请求用户批准。用户可以在批准前修改命令，返回 { approved, editedCommand, reason }，批准后请执行 editedCommand。',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                action: {
+                    type: 'string',
+                    description: '要执行的操作及其影响，支持 Markdown 格式'
+                },
+                command: {
+                    type: 'string',
+                    description: '要执行的命令，用户可以在批准前修改'
+                },
+                risk: {
+                    type: 'string',
+                    enum: ['low', 'medium', 'high'],
+                    description: '风险等级，默认 medium'
+                },
+                resume_token: {
+                    type: 'string',
+                    description: '上次调用软超时返回的 resume_token，传入后继续等待原来的问题，不会重复显示'
+                },
+                workspace: {
+                    type: 'string',
+                    description: '当前项目的绝对路径。打开了多个 IDE 窗口时，用它把请求发送到对应项目的面板'
+                },
+                conversation_id: {
+                    type: 'string',
+                    description: '当前对话的标识（如会话 id）。同时运行多个 AI 对话时，面板上会显示在消息的来源徽标中'
+                },
+                conversation_title: {
+                    type: 'string',
+                    description: '当前对话的简短标题（如 "refactor-auth"），优先于 conversation_id 显示在来源徽标中'
+                }
+            }
+        }
+    }, {
+        name: 'panel_notify',
+        description: '在 IDE 侧边栏追加一条状态消息（如"第 3 步已完成"），立即返回，不等待用户回复。需要用户回复时请使用 panel_feedback。',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                message: {
+                    type: 'string',
+                    description: '状态消息，支持 Markdown 格式'
+                },
+                level: {
+                    type: 'string',
+                    enum: ['info', 'success', 'warning', 'error'],
+                    description: '消息级别，默认 info'
+                },
+                workspace: {
+                    type: 'string',
+                    description: '当前项目的绝对路径。打开了多个 IDE 窗口时，用它把消息发送到对应项目的面板'
+                },
+                conversation_id: {
+                    type: 'string',
+                    description: '当前对话的标识（如会话 id）。同时运行多个 AI 对话时，面板上会显示在消息的来源徽标中'
+                },
+                conversation_title: {
+                    type: 'string',
+                    description: '当前对话的简短标题（如 "refactor-auth"），优先于 conversation_id 显示在来源徽标中'
+                }
+            },
+            required: ['message']
+        }
+    }
+];
+
+function parseSeconds(value, defaultSeconds) {
+    const seconds = Number(value);
+    return value !== undefined && value !== '' && Number.isFinite(seconds) && seconds >= 0 ? seconds : defaultSeconds;
+}
+
+// 正在等待用户回复的调用：JSON-RPC id -> { requestId, target, progressToken, cancelled, timedOut, onCancel }
+const activeCalls = new Map();
 
 const rl = readline.createInterface({
     input: process.stdin,
@@ -24,21 +220,133 @@ const rl = readline.createInterface({
     terminal: false
 });
 
-// 获取目标端口（简化版：直接读取端口文件或使用默认端口）
-function getTargetPort() {
+// 进程是否仍在运行（EPERM 表示进程存在但属于其他用户）
+function isProcessAlive(pid) {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (e) {
+        return e.code === 'EPERM';
+    }
+}
+
+// 读取所有正在运行的面板窗口，顺带清理崩溃窗口留下的条目
+function readServerRegistry() {
+    const entries = [];
+    try {
+        if (!fs.existsSync(SERVERS_DIR)) {
+            return entries;
+        }
+        for (const file of fs.readdirSync(SERVERS_DIR)) {
+            if (!file.endsWith('.json')) continue;
+            const filePath = path.join(SERVERS_DIR, file);
+            try {
+                const entry = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+                if ((entry.port || entry.socketPath) && isProcessAlive(entry.pid)) {
+                    entries.push(entry);
+                } else {
+                    fs.unlinkSync(filePath);
+                }
+            } catch (e) {
+                // 写入中途或已损坏的文件，跳过
+            }
+        }
+    } catch (e) {
+        // ignore
+    }
+    return entries;
+}
+
+function normalizePath(p) {
+    const resolved = path.resolve(p);
+    return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+}
+
+// 找到工作区包含 targetPath 的窗口，多个匹配时取最深的工作区
+function findWorkspaceMatch(entries, targetPath) {
+    const target = normalizePath(targetPath);
+    let best = null;
+    let bestLength = -1;
+    for (const entry of entries) {
+        for (const folder of entry.workspaceFolders || []) {
+            const normalized = normalizePath(folder);
+            const contains = target === normalized || target.startsWith(normalized + path.sep);
+            if (contains && normalized.length > bestLength) {
+                best = entry;
+                bestLength = normalized.length;
+            }
+        }
+    }
+    return best;
+}
+
+// 读取旧版单一端口文件
+function readLegacyTarget() {
     try {
         const portFile = path.join(REGISTRY_DIR, 'port.json');
         if (fs.existsSync(portFile)) {
             const content = fs.readFileSync(portFile, 'utf-8');
             const data = JSON.parse(content);
             if (data.port) {
-                return data.port;
+                return { port: data.port, token: data.token };
             }
         }
     } catch (e) {
         // ignore
     }
-    return DEFAULT_PORT;
+    return null;
+}
+
+// 是否有 IDE 窗口登记过服务器（注册信息或旧版 port.json）
+function hasRegisteredServer() {
+    return readServerRegistry().length > 0 || readLegacyTarget() !== null;
+}
+
+// 连接目标：扩展监听了 Unix socket 且文件存在时优先使用，否则走 TCP
+function toTarget(entry) {
+    const socketPath = entry.socketPath && fs.existsSync(entry.socketPath) ? entry.socketPath : undefined;
+    return { port: entry.port, socketPath, token: entry.token };
+}
+
+// 获取目标窗口的连接方式和访问令牌，按以下顺序回退：
+// 1. 工具参数 workspace 所在的窗口
+// 2. wrapper 当前工作目录所在的窗口
+// 3. 最近获得焦点的窗口
+// 4. 旧版 port.json，最后是默认端口
+function getTarget(workspaceHint) {
+    const entries = readServerRegistry();
+    if (entries.length > 0) {
+        const match = (workspaceHint && findWorkspaceMatch(entries, workspaceHint))
+            || findWorkspaceMatch(entries, process.cwd());
+        const entry = match || entries.reduce((a, b) =>
+            (b.lastFocusedAt || b.startedAt || 0) > (a.lastFocusedAt || a.startedAt || 0) ? b : a);
+        return toTarget(entry);
+    }
+    return readLegacyTarget() || { port: DEFAULT_PORT };
+}
+
+// http.request 的连接参数
+function connectOptions(target) {
+    return target.socketPath
+        ? { socketPath: target.socketPath }
+        : { hostname: '127.0.0.1', port: target.port };
+}
+
+// 扩展未监听：TCP 端口拒绝连接，或 socket 文件已被删除
+function isNotListening(err) {
+    return err.code === 'ECONNREFUSED' || err.code === 'ENOENT';
+}
+
+// 请求头：附带访问令牌
+function buildHeaders(target, postData) {
+    const headers = {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(postData)
+    };
+    if (target.token) {
+        headers['Authorization'] = `Bearer ${target.token}`;
+    }
+    return headers;
 }
 
 // 生成唯一请求 ID
@@ -52,19 +360,14 @@ function sleep(ms) {
 }
 
 // 发送 HTTP 请求
-function sendRequest(urlPath, data, targetPort) {
-    const port = targetPort || DEFAULT_PORT;
+function sendRequest(urlPath, data, target) {
     return new Promise((resolve, reject) => {
         const postData = JSON.stringify(data);
         const options = {
-            hostname: '127.0.0.1',
-            port: port,
+            ...connectOptions(target),
             path: urlPath,
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Content-Length': Buffer.byteLength(postData)
-            },
+            headers: buildHeaders(target, postData),
             timeout: 5000
         };
 
@@ -81,7 +384,7 @@ function sendRequest(urlPath, data, targetPort) {
         });
 
         req.on('error', (e) => {
-            if (e.code === 'ECONNREFUSED') {
+            if (isNotListening(e)) {
                 resolve({ _connectionRefused: true });
             } else {
                 reject(e);
@@ -98,14 +401,45 @@ function sendRequest(urlPath, data, targetPort) {
     });
 }
 
-// 轮询获取结果
-async function pollForResult(requestId, targetPort) {
+// 软超时：返回中间状态，解除阻塞让AI可以继续；带上 resume_token 以便接着等待同一个问题
+function softTimeoutResult(elapsed, call) {
+    call.timedOut = true;
+    const waitMinutes = Math.round(elapsed / 60000);
+    // panel_feedback 声明了 outputSchema，超时结果也要带 structuredContent
+    const structuredContent = call.toolName === 'panel_feedback' ? {
+        selectedOptions: [],
+        text: '',
+        mentionedFiles: [],
+        images: 0,
+        endedByUser: false,
+        rulesAppended: false,
+        timedOut: true,
+        resumeToken: call.requestId
+    } : undefined;
+    return {
+        structuredContent,
+        content: [{
+            type: 'text',
+            text: `⏳ 已等待 ${waitMinutes} 分钟，用户尚未响应。\n\n` +
+                  `如需继续等待用户反馈，请再次调用 ${call.toolName} 工具，参数不变并加上 resume_token: "${call.requestId}"，` +
+                  `面板上的问题会保留，不会重复显示。\n` +
+                  `或者你可以继续其他对话。`
+        }]
+    };
+}
+
+// 轮询获取结果（旧版扩展不支持 /wait 时使用）
+async function pollForResult(requestId, target, call) {
     const startTime = Date.now();
+    const softTimeout = getSoftTimeout(call);
     let connectionRefusedCount = 0;
     
     while (Date.now() - startTime < MAX_POLL_TIME) {
+        if (call.cancelled) {
+            return null;
+        }
         try {
-            const result = await sendRequest('/poll', { requestId }, targetPort);
+            const result = await sendRequest('/poll', { requestId }, target);
             
             if (result._connectionRefused) {
                 connectionRefusedCount++;
@@ -129,18 +463,9 @@ async function pollForResult(requestId, targetPort) {
             }
         }
         
-        // 软超时：返回中间状态，解除阻塞让AI可以继续
         const elapsed = Date.now() - startTime;
-        if (elapsed > SOFT_TIMEOUT) {
-            const waitMinutes = Math.round(elapsed / 60000);
-            return {
-                content: [{
-                    type: 'text',
-                    text: `⏳ 已等待 ${waitMinutes} 分钟，用户尚未响应。\n\n` +
-                          `如需继续等待用户反馈，请再次调用 panel_feedback 工具。\n` +
-                          `或者你可以继续其他对话。`
-                }]
-            };
+        if (elapsed > softTimeout) {
+            return softTimeoutResult(elapsed, call);
         }
         
         await sleep(POLL_INTERVAL);
@@ -149,55 +474,531 @@ async function pollForResult(requestId, targetPort) {
     throw new Error('Poll timeout after 7 days');
 }
 
-// 写调试日志
-function writeDebugLog(content) {
+// 打开一次 /wait 长连接，返回以下之一：
+// { status: 'completed' | 'error' | 'pending', ... }  服务端结果
+// { _connectionRefused: true }  扩展未运行
+// { _unauthorized: true }       令牌不对（窗口重新加载后换了令牌）
+// { _unsupported: true }        旧版扩展没有 /wait
+// { _dropped: true }            连接断开或心跳超时，需要重连
+// { _softTimeout: true }        到达 maxDuration
+// { _cancelled: true }          客户端取消了调用
+function openWaitStream(requestId, target, maxDuration, call) {
+    return new Promise((resolve) => {
+        const postData = JSON.stringify({ requestId });
+        let settled = false;
+        let watchdog = null;
+
+        const finish = (outcome) => {
+            if (settled) return;
+            settled = true;
+            call.onCancel = null;
+            clearTimeout(watchdog);
+            clearTimeout(deadline);
+            req.destroy();
+            resolve(outcome);
+        };
+
+        const resetWatchdog = () => {
+            clearTimeout(watchdog);
+            watchdog = setTimeout(() => finish({ _dropped: true }), HEARTBEAT_TIMEOUT);
+        };
+
+        const deadline = setTimeout(() => finish({ _softTimeout: true }), maxDuration);
+        call.onCancel = () => finish({ _cancelled: true });
+
+        const req = http.request({
+            ...connectOptions(target),
+            path: '/wait',
+            method: 'POST',
+            headers: buildHeaders(target, postData)
+        }, (res) => {
+            const contentType = res.headers['content-type'] || '';
+            let buffer = '';
+            res.setEncoding('utf-8');
+
+            if (res.statusCode === 401) {
+                res.resume();
+                finish({ _unauthorized: true });
+                return;
+            }
+            if (!contentType.includes('text/event-stream')) {
+                // 已完成的请求、错误或旧版扩展：普通 JSON 响应
+                res.on('data', chunk => buffer += chunk);
+                res.on('end', () => {
+                    try {
+                        const data = JSON.parse(buffer);
+                        finish(data.error === 'Unknown endpoint' ? { _unsupported: true } : data);
+                    } catch (e) {
+                        finish({ _dropped: true });
+                    }
+                });
+                return;
+            }
+
+            const dropped = { _dropped: true, _wasConnected: true };
+            resetWatchdog();
+            res.on('data', chunk => {
+                resetWatchdog();
+                buffer += chunk;
+                let boundary;
+                while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+                    const rawEvent = buffer.substring(0, boundary);
+                    buffer = buffer.substring(boundary + 2);
+                    let event = 'message';
+                    let data = '';
+                    for (const line of rawEvent.split('\n')) {
+                        if (line.startsWith('event:')) {
+                            event = line.substring(6).trim();
+                        } else if (line.startsWith('data:')) {
+                            data += line.substring(5).trim();
+                        }
+                    }
+                    if (event === 'result' && data) {
+                        try {
+                            finish(JSON.parse(data));
+                        } catch (e) {
+                            finish(dropped);
+                        }
+                    }
+                }
+            });
+            res.on('end', () => finish(dropped));
+            res.on('error', () => finish(dropped));
+        });
+
+        req.on('error', (e) => {
+            finish(isNotListening(e) ? { _connectionRefused: true } : { _dropped: true });
+        });
+
+        req.write(postData);
+        req.end();
+    });
+}
+
+// 客户端会收到进度通知时不需要软超时，一直等到用户回复
+function getSoftTimeout(call) {
+    return call.progressToken !== undefined ? MAX_POLL_TIME : SOFT_TIMEOUT;
+}
+
+// 通过 /wait 长连接等待结果，断线后按退避间隔重连；调用被取消时返回 null。
+// 每次重连前重新读取注册信息：窗口重新加载后端口、socket 和令牌都会变，请求由新窗口恢复
+async function waitForResult(requestId, call) {
+    const startTime = Date.now();
+    const softTimeout = getSoftTimeout(call);
+    let connectionRefusedCount = 0;
+    let reconnectDelay = RECONNECT_MIN_DELAY;
+
+    while (Date.now() - startTime < MAX_POLL_TIME) {
+        if (call.cancelled) {
+            return null;
+        }
+        const elapsed = Date.now() - startTime;
+        if (elapsed >= softTimeout) {
+            return softTimeoutResult(elapsed, call);
+        }
+
+        const outcome = await openWaitStream(requestId, call.target, softTimeout - elapsed, call);
+
+        if (outcome._cancelled) {
+            return null;
+        } else if (outcome._unsupported) {
+            sendLog('notice', '扩展版本较旧，不支持 /wait，改为轮询等待');
+            return pollForResult(requestId, call.target, call);
+        } else if (outcome._softTimeout) {
+            return softTimeoutResult(Date.now() - startTime, call);
+        } else if (outcome._connectionRefused || outcome._unauthorized) {
+            // 重新加载期间旧端口拒绝连接、注册信息还是旧令牌，都按扩展暂未就绪重试
+            connectionRefusedCount++;
+            if (connectionRefusedCount > 10) {
+                throw new Error(outcome._unauthorized
+                    ? '访问令牌无效。请重新加载 IDE 窗口后重试。'
+                    : '扩展未启动。请先在 IDE 中打开 Panel Feedback 面板。');
+            }
+        } else if (outcome._dropped) {
+            connectionRefusedCount = 0;
+            if (outcome._wasConnected) {
+                reconnectDelay = RECONNECT_MIN_DELAY;
+            }
+            logEvent('warn', 'wait.dropped', { requestId });
+            sendLog('warning', '与扩展的连接断开，正在重连');
+        } else if (outcome.status === 'completed') {
+            return outcome.data;
+        } else if (outcome.status === 'error' || outcome.error) {
+            throw new Error(outcome.error || 'Unknown error');
+        }
+
+        await sleep(reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_DELAY);
+        call.target = getTarget(call.workspace);
+    }
+
+    throw new Error('Wait timeout after 7 days');
+}
+
+// 其他进程已经移走文件时忽略
+function renameIfExists(from, to) {
     try {
-        const logFile = path.join(REGISTRY_DIR, 'debug.log');
-        if (!fs.existsSync(REGISTRY_DIR)) {
-            fs.mkdirSync(REGISTRY_DIR, { recursive: true });
+        fs.renameSync(from, to);
+        return true;
+    } catch (e) {
+        if (e.code === 'ENOENT') {
+            return false;
+        }
+        throw e;
+    }
+}
+
+// events.jsonl -> events.1.jsonl -> ... -> events.N.jsonl，最旧的被覆盖。
+// 与扩展相同：改名为带 pid 的文件成功的进程负责轮转，其余进程直接写入新文件
+function rotateEventLog() {
+    try {
+        if (fs.statSync(EVENT_LOG_FILE).size < EVENT_LOG_MAX_SIZE) {
+            return;
+        }
+    } catch (e) {
+        return;
+    }
+    const claimed = path.join(EVENT_LOG_DIR, `events.${process.pid}.rotating`);
+    if (!renameIfExists(EVENT_LOG_FILE, claimed)) {
+        return;
+    }
+    for (let i = EVENT_LOG_MAX_FILES - 1; i >= 1; i--) {
+        renameIfExists(path.join(EVENT_LOG_DIR, `events.${i}.jsonl`), path.join(EVENT_LOG_DIR, `events.${i + 1}.jsonl`));
+    }
+    fs.renameSync(claimed, path.join(EVENT_LOG_DIR, 'events.1.jsonl'));
+}
+
+// 记录一个事件，低于 PANEL_FEEDBACK_LOG_LEVEL（默认 info）的级别不写入
+function logEvent(level, event, fields = {}) {
+    if (EVENT_LOG_LEVELS.indexOf(level) < EVENT_LOG_LEVELS.indexOf(EVENT_LOG_LEVEL)) {
+        return;
+    }
+    try {
+        if (!fs.existsSync(EVENT_LOG_DIR)) {
+            fs.mkdirSync(EVENT_LOG_DIR, { recursive: true, mode: 0o700 });
         }
-        const timestamp = new Date().toISOString();
-        fs.appendFileSync(logFile, `[${timestamp}] ${content}\n`);
+        rotateEventLog();
+        const entry = { ts: new Date().toISOString(), level, source: 'wrapper', event, pid: process.pid, client: clientInfo?.name, ...fields };
+        fs.appendFileSync(EVENT_LOG_FILE, JSON.stringify(entry) + '\n');
     } catch (e) {
         // ignore
     }
 }
 
-// 处理 tools/call 请求
+// resources/* 和 prompts/* 直接转发给扩展，错误中的 code 原样返回
+async function handleForwardedRequest(mcpId, method, params) {
+    const target = getTarget();
+    let result;
+    try {
+        result = await sendRequest('/' + method, params || {}, target);
+    } catch (err) {
+        result = { error: err.message };
+    }
+
+    if (result._connectionRefused) {
+        return { jsonrpc: '2.0', id: mcpId, error: { code: -32000, message: '扩展未启动。请先在 IDE 中打开 Panel Feedback 面板。' } };
+    }
+    if (result.error === 'Unknown endpoint') {
+        return { jsonrpc: '2.0', id: mcpId, error: { code: -32000, message: `当前扩展版本不支持 ${method}，请更新扩展。` } };
+    }
+    if (result.error) {
+        const { error, code } = result;
+        return { jsonrpc: '2.0', id: mcpId, error: { code: code || -32000, message: error } };
+    }
+    return { jsonrpc: '2.0', id: mcpId, result };
+}
+
+// 处理 panel_notify：只追加状态消息，不等待用户
+async function handleNotify(mcpId, params) {
+    const target = getTarget(params?.arguments?.workspace);
+    logEvent('info', 'notify.sent', { port: target.port, socketPath: target.socketPath, messageSize: String(params?.arguments?.message ?? '').length });
+
+    let result;
+    try {
+        result = await sendRequest('/notify', { params, client: clientInfo }, target);
+    } catch (err) {
+        result = { error: err.message };
+    }
+
+    if (result._connectionRefused || result.error) {
+        const message = result._connectionRefused
+            ? '扩展未启动。请先在 IDE 中打开 Panel Feedback 面板。'
+            : result.error === 'Unknown endpoint'
+                ? '当前扩展版本不支持 panel_notify，请更新扩展。'
+                : result.error === 'Unauthorized'
+                    ? '访问令牌无效。请重新加载 IDE 窗口后重试。'
+                    : result.error;
+        return { jsonrpc: '2.0', id: mcpId, error: { code: -32000, message } };
+    }
+    return { jsonrpc: '2.0', id: mcpId, result: result.data };
+}
+
+// 处理 tools/call 请求；调用被取消时返回 null（不发送响应）
 async function handleToolCall(mcpId, params) {
     const requestId = generateRequestId();
-    const targetPort = getTargetPort();
-    
-    writeDebugLog(`>>> Tool call: port=${targetPort}, requestId=${requestId}`);
+    const workspace = params?.arguments?.workspace;
+    const target = getTarget(workspace);
+    const callKey = JSON.stringify(mcpId);
+    const call = {
+        requestId,
+        toolName: params?.name,
+        workspace,
+        target,
+        progressToken: params?._meta?.progressToken,
+        progress: 0,
+        cancelled: false,
+        timedOut: false,
+        onCancel: null
+    };
     
-    // 1. 提交请求
-    const submitResult = await sendRequest('/submit', {
+    const startTime = Date.now();
+    logEvent('info', 'call.started', {
         requestId,
-        params
-    }, targetPort);
+        tool: call.toolName,
+        port: target.port,
+        socketPath: target.socketPath,
+        messageSize: JSON.stringify(params?.arguments || {}).length
+    });
+    activeCalls.set(callKey, call);
+    let response;
+    try {
+        response = await runToolCall(mcpId, params, call);
+        return response;
+    } finally {
+        activeCalls.delete(callKey);
+        const outcome = call.cancelled ? 'cancelled'
+            : !response || response.error ? 'error'
+                : call.timedOut ? 'timeout'
+                    : 'completed';
+        logEvent(outcome === 'error' ? 'warn' : 'info', 'call.completed', {
+            requestId: call.requestId,
+            tool: call.toolName,
+            outcome,
+            waitMs: Date.now() - startTime,
+            ...(response?.error ? { error: response.error.message } : {})
+        });
+    }
+}
+
+// 发送进度通知，progress 在整个调用期间递增
+function sendProgress(call, message) {
+    if (call.progressToken !== undefined) {
+        notify('notifications/progress', { progressToken: call.progressToken, progress: ++call.progress, message });
+    }
+}
+
+// 休眠，调用被取消时提前返回
+function sleepUnlessCancelled(ms, call) {
+    return new Promise(resolve => {
+        const done = () => {
+            clearTimeout(timer);
+            call.onCancel = null;
+            resolve();
+        };
+        const timer = setTimeout(done, ms);
+        call.onCancel = done;
+    });
+}
+
+// 提交请求；IDE 尚未启动时按退避重试，每次重新读取注册信息（重启后的窗口会换端口）
+// 开启终端回退且没有任何窗口登记过服务器时不等待，直接在终端上提问
+async function submitWhenReady(params, call) {
+    const startTime = Date.now();
+    let delay = RECONNECT_MIN_DELAY;
+    while (true) {
+        const result = await sendRequest('/submit', { requestId: call.requestId, params, client: clientInfo }, call.target);
+        if (result._connectionRefused && TTY_FALLBACK && call.toolName === 'panel_feedback' && !hasRegisteredServer()) {
+            logEvent('info', 'call.noIde', { requestId: call.requestId });
+            return { ...result, _noServer: true };
+        }
+        const elapsed = Date.now() - startTime;
+        if (!result._connectionRefused || call.cancelled || elapsed >= STARTUP_TIMEOUT) {
+            return result;
+        }
+        if (delay === RECONNECT_MIN_DELAY) {
+            logEvent('info', 'call.waitingForIde', { requestId: call.requestId, timeoutMs: STARTUP_TIMEOUT });
+            sendLog('notice', 'IDE 面板尚未启动，正在等待');
+        }
+        sendProgress(call, `等待 IDE 面板启动（${Math.round(elapsed / 1000)}s）...`);
+
+        await sleepUnlessCancelled(Math.min(delay, STARTUP_TIMEOUT - elapsed), call);
+        if (call.cancelled) {
+            return result;
+        }
+        delay = Math.min(delay * 2, RECONNECT_MAX_DELAY);
+        call.target = getTarget(call.workspace);
+    }
+}
+
+// ========== 终端回退 ==========
+
+// 同一时间只在终端上显示一个问题
+let terminalQueue = Promise.resolve();
+
+function askOnTerminal(args, call) {
+    const ask = terminalQueue.then(() => call.cancelled ? null : promptOnTerminal(args, call));
+    terminalQueue = ask.catch(() => {});
+    return ask;
+}
+
+// 在 /dev/tty 上显示消息和编号选项：输入编号（多个用逗号分隔）选择选项，或输入多行文本、空行结束
+// 返回与扩展 parseResponse 相同结构的结果，调用被取消时返回 null
+function promptOnTerminal(args, call) {
+    if (process.platform === 'win32') {
+        return Promise.reject(new Error('终端回退不支持 Windows'));
+    }
+    // 读写各用一个 fd，由各自的流关闭
+    let readFd;
+    let writeFd;
+    try {
+        readFd = fs.openSync('/dev/tty', 'r');
+        writeFd = fs.openSync('/dev/tty', 'w');
+    } catch (e) {
+        if (readFd !== undefined) {
+            fs.closeSync(readFd);
+        }
+        return Promise.reject(new Error(`无法打开终端：${e.message}`));
+    }
+
+    const message = String(args?.message ?? '');
+    const options = Array.isArray(args?.predefined_options) ? args.predefined_options.map(String) : [];
+    const input = new tty.ReadStream(readFd);
+    const output = new tty.WriteStream(writeFd);
+    const prompt = readline.createInterface({ input, output, terminal: true });
+
+    output.write(`\n──────── panel-feedback ────────\n${message}\n\n`);
+    options.forEach((option, i) => output.write(`  ${i + 1}) ${option}\n`));
+    output.write(options.length > 0
+        ? '\n输入选项编号（多个用逗号分隔），或输入回复内容，空行结束：\n'
+        : '\n输入回复内容，空行结束：\n');
+    logEvent('info', 'tty.prompt', { requestId: call.requestId, messageSize: message.length });
+
+    return new Promise(resolve => {
+        const lines = [];
+        let settled = false;
+        const finish = (result) => {
+            if (settled) return;
+            settled = true;
+            call.onCancel = null;
+            prompt.close();
+            input.destroy();
+            output.destroy();
+            resolve(result);
+        };
+
+        call.onCancel = () => {
+            output.write('\n[已被 AI 取消]\n');
+            finish(null);
+        };
+        prompt.on('line', line => {
+            // 第一行只有编号时直接提交选项
+            if (lines.length === 0 && /^\s*\d+(\s*,\s*\d+)*\s*$/.test(line)) {
+                const selected = line.split(',').map(n => options[Number(n.trim()) - 1]);
+                if (selected.every(option => option !== undefined)) {
+                    finish(terminalResult('', [...new Set(selected)]));
+                    return;
+                }
+            }
+            if (line.trim() === '') {
+                if (lines.length > 0) {
+                    finish(terminalResult(lines.join('\n').trim(), []));
+                }
+                return;
+            }
+            lines.push(line);
+        });
+        // Ctrl+D：提交已输入的内容
+        prompt.on('close', () => finish(terminalResult(lines.join('\n').trim(), [])));
+    });
+}
+
+function terminalResult(text, selectedOptions) {
+    const mentionedFiles = [];
+    for (const match of text.matchAll(/`([^`\n]+)`/g)) {
+        const filePath = match[1].trim();
+        if (path.isAbsolute(filePath) && !mentionedFiles.includes(filePath)) {
+            mentionedFiles.push(filePath);
+        }
+    }
+    return {
+        content: [{ type: 'text', text: selectedOptions.length > 0 ? selectedOptions.join(', ') : text }],
+        structuredContent: {
+            selectedOptions,
+            text,
+            mentionedFiles,
+            images: 0,
+            endedByUser: false,
+            rulesAppended: false
+        }
+    };
+}
+
+async function runToolCall(mcpId, params, call) {
+    // 1. 提交请求
+    const submitResult = await submitWhenReady(params, call);
     
     if (submitResult._connectionRefused) {
+        // 等待 IDE 期间被取消，问题还没有显示，无需撤回
+        if (call.cancelled) {
+            return null;
+        }
+        if (TTY_FALLBACK && call.toolName === 'panel_feedback') {
+            try {
+                const result = await askOnTerminal(params.arguments, call);
+                if (result === null) {
+                    return null;
+                }
+                logEvent('info', 'tty.answered', { requestId: call.requestId });
+                return { jsonrpc: '2.0', id: mcpId, result };
+            } catch (err) {
+                logEvent('warn', 'tty.failed', { requestId: call.requestId, error: err.message });
+            }
+        }
         return {
             jsonrpc: '2.0',
             id: mcpId,
             error: {
                 code: -32000,
-                message: '扩展未启动。请先在 IDE 中打开 Panel Feedback 面板。'
+                message: STARTUP_TIMEOUT > 0 && !submitResult._noServer
+                    ? `扩展未启动（已等待 ${Math.round(STARTUP_TIMEOUT / 1000)} 秒）。请先在 IDE 中打开 Panel Feedback 面板。`
+                    : '扩展未启动。请先在 IDE 中打开 Panel Feedback 面板。'
             }
         };
     }
     
     if (submitResult.error) {
+        const message = submitResult.error === 'Unauthorized'
+            ? '访问令牌无效。请重新加载 IDE 窗口后重试。'
+            : submitResult.error;
         return {
             jsonrpc: '2.0',
             id: mcpId,
-            error: { code: -32000, message: submitResult.error }
+            // 扩展拒绝参数时带回 -32602
+            error: { code: submitResult.code || -32000, message }
         };
     }
     
-    // 2. 轮询等待结果
+    // 扩展接管了之前软超时的请求，改为等待原请求
+    if (submitResult.status === 'resumed') {
+        logEvent('info', 'call.resumed', { requestId: submitResult.requestId, previousRequestId: call.requestId });
+        call.requestId = submitResult.requestId;
+    }
+    
+    // 提交期间已被取消：通知扩展撤回问题
+    if (call.cancelled) {
+        await sendCancel(call, call.cancelReason);
+        return null;
+    }
+    
+    // 2. 等待结果，期间定时发送进度通知
+    const progressTimer = call.progressToken !== undefined
+        ? setInterval(() => sendProgress(call, '等待用户回复...'), PROGRESS_INTERVAL)
+        : null;
     try {
-        const result = await pollForResult(requestId, targetPort);
+        const result = await waitForResult(call.requestId, call);
+        if (result === null) {
+            return null;
+        }
         return {
             jsonrpc: '2.0',
             id: mcpId,
@@ -209,81 +1010,247 @@ async function handleToolCall(mcpId, params) {
             id: mcpId,
             error: { code: -32000, message: err.message }
         };
+    } finally {
+        clearInterval(progressTimer);
     }
 }
 
+function sendCancel(call, reason) {
+    return sendRequest('/cancel', { requestId: call.requestId, reason }, call.target)
+        .catch(err => logEvent('error', 'cancel.failed', { requestId: call.requestId, error: err.message }));
+}
+
+// 客户端发送 notifications/cancelled：停止等待并撤回面板上的问题
+function cancelCall(mcpId, reason) {
+    const call = activeCalls.get(JSON.stringify(mcpId));
+    if (!call || call.cancelled) {
+        return Promise.resolve();
+    }
+    logEvent('info', 'call.cancelled', { requestId: call.requestId, reason });
+    call.cancelled = true;
+    call.cancelReason = reason;
+    if (call.onCancel) {
+        call.onCancel();
+    }
+    return sendCancel(call, reason);
+}
+
+function notify(method, params) {
+    process.stdout.write(JSON.stringify({ jsonrpc: '2.0', method, params }) + '\n');
+}
+
 function respond(response) {
     const output = JSON.stringify(response);
-    writeDebugLog(`<<< SENDING: id=${response.id}`);
+    logEvent('debug', 'rpc.sent', { id: Array.isArray(response) ? response.map(r => r.id) : response.id });
     process.stdout.write(output + '\n');
 }
 
-// 处理标准输入
-rl.on('line', async (line) => {
-    writeDebugLog(`>>> RECV: ${line.substring(0, 100)}...`);
-    try {
-        const request = JSON.parse(line);
-        const { id, method, params } = request;
-        
-        let response;
-        
-        if (method === 'initialize') {
-            response = {
-                jsonrpc: '2.0',
-                id,
-                result: {
-                    protocolVersion: '2024-11-05',
-                    serverInfo: { name: 'panel-feedback', version: '2.0.0' },
-                    capabilities: { tools: {} }
-                }
-            };
-        }
-        else if (method === 'tools/list') {
-            response = {
-                jsonrpc: '2.0',
-                id,
-                result: {
-                    tools: [{
-                        name: 'panel_feedback',
-                        description: '在 IDE 侧边栏显示消息并获取用户反馈。强烈建议提供 predefined_options 让用户快速选择，提升交互体验。支持图片上传。',
-                        inputSchema: {
-                            type: 'object',
-                            properties: {
-                                message: {
-                                    type: 'string',
-                                    description: '要显示给用户的消息，支持 Markdown 格式'
-                                },
-                                predefined_options: {
-                                    type: 'array',
-                                    items: { type: 'string' },
-                                    description: '预定义的快捷选项按钮列表，用户可以一键点击选择。建议提供 2-5 个常用选项，如 ["继续", "取消", "查看详情"] 或 ["是", "否"]。这能大幅提升用户体验！'
-                                }
-                            },
-                            required: ['message']
-                        }
-                    }]
+function rpcError(id, code, message, data) {
+    return { jsonrpc: '2.0', id, error: data === undefined ? { code, message } : { code, message, data } };
+}
+
+// 客户端请求的版本受支持时原样返回，否则返回最新版本
+function negotiateProtocolVersion(requested) {
+    return SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0];
+}
+
+// 通过 notifications/message 向客户端发送日志，低于 logging/setLevel 设置的级别不发送
+function sendLog(level, data) {
+    if (LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(clientLogLevel)) {
+        notify('notifications/message', { level, logger: 'panel-feedback', data });
+    }
+}
+
+// 按工具的 inputSchema 检查必填参数和基本类型，返回错误信息或 null
+function validateToolArguments(tool, args) {
+    if (args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args))) {
+        return '"arguments" must be an object';
+    }
+    const { properties, required = [] } = tool.inputSchema;
+    for (const name of required) {
+        if (args?.[name] === undefined) {
+            return `"${name}" is required`;
+        }
+    }
+    for (const [name, value] of Object.entries(args || {})) {
+        const expected = properties[name]?.type;
+        if (!expected || value === undefined) continue;
+        const actual = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+        if (actual !== expected) {
+            return `"${name}" must be of type ${expected}`;
+        }
+        if (properties[name].enum && !properties[name].enum.includes(value)) {
+            return `"${name}" must be one of ${properties[name].enum.join(', ')}`;
+        }
+    }
+    return TOOL_ARGUMENT_CHECKS[tool.name]?.(args || {}) || null;
+}
+
+// inputSchema 表达不了的工具参数约束，与扩展 normalizeFormSchema 和 panel_confirm 的检查一致
+const FORM_FIELD_TYPES = ['string', 'number', 'integer', 'boolean'];
+const TOOL_ARGUMENT_CHECKS = {
+    panel_form: ({ schema }) => {
+        if (!schema.properties || typeof schema.properties !== 'object' || Array.isArray(schema.properties)) {
+            return 'form schema requires "properties"';
+        }
+        const fields = Object.entries(schema.properties);
+        if (fields.length === 0) {
+            return 'form schema requires at least one field';
+        }
+        for (const [name, field] of fields) {
+            if (!field || !FORM_FIELD_TYPES.includes(field.type)) {
+                return `form field "${name}" must have type ${FORM_FIELD_TYPES.join(' / ')}`;
+            }
+            if (field.enum !== undefined && (!Array.isArray(field.enum) || field.enum.length === 0)) {
+                return `"enum" of form field "${name}" must be a non-empty array`;
+            }
+            if (field.pattern !== undefined) {
+                try {
+                    new RegExp(field.pattern);
+                } catch {
+                    return `"pattern" of form field "${name}" is not a valid regular expression`;
                 }
-            };
+            }
+        }
+        return null;
+    },
+    panel_confirm: ({ action, command }) => (!action && typeof command !== 'string')
+        ? 'either "action" or "command" is required'
+        : null
+};
+
+async function handleToolsCall(id, params) {
+    const tool = TOOLS.find(t => t.name === params?.name);
+    if (!tool) {
+        return rpcError(id, -32602, `Unknown tool: ${params?.name}`);
+    }
+    const argError = validateToolArguments(tool, params.arguments);
+    if (argError) {
+        return rpcError(id, -32602, `Invalid arguments for ${tool.name}: ${argError}`);
+    }
+    return tool.name === 'panel_notify' ? handleNotify(id, params) : handleToolCall(id, params);
+}
+
+// 请求方法表：返回完整响应，返回 null 表示不发送响应（调用已取消）
+const REQUEST_HANDLERS = {
+    'initialize': (id, params) => {
+        clientInfo = params?.clientInfo && { name: params.clientInfo.name, version: params.clientInfo.version };
+        logEvent('info', 'client.initialized', { clientVersion: params?.clientInfo?.version, protocolVersion: params?.protocolVersion });
+        return {
+            jsonrpc: '2.0',
+            id,
+            result: {
+                protocolVersion: negotiateProtocolVersion(params?.protocolVersion),
+                serverInfo: { name: 'panel-feedback', version: WRAPPER_VERSION },
+                capabilities: { tools: {}, resources: {}, prompts: {}, logging: {} }
+            }
+        };
+    },
+    'ping': (id) => ({ jsonrpc: '2.0', id, result: {} }),
+    'tools/list': (id) => ({ jsonrpc: '2.0', id, result: { tools: TOOLS } }),
+    'tools/call': handleToolsCall,
+    'resources/list': (id, params) => handleForwardedRequest(id, 'resources/list', params),
+    'resources/read': (id, params) => handleForwardedRequest(id, 'resources/read', params),
+    'prompts/list': (id, params) => handleForwardedRequest(id, 'prompts/list', params),
+    'prompts/get': (id, params) => handleForwardedRequest(id, 'prompts/get', params),
+    'logging/setLevel': (id, params) => {
+        if (!LOG_LEVELS.includes(params?.level)) {
+            return rpcError(id, -32602, `Invalid log level: ${params?.level}`);
         }
-        else if (method === 'notifications/initialized') {
-            return;  // 通知类请求不需要响应
+        clientLogLevel = params.level;
+        return { jsonrpc: '2.0', id, result: {} };
+    }
+};
+
+// 通知方法表：不发送响应，未知通知直接忽略
+const NOTIFICATION_HANDLERS = {
+    'notifications/initialized': () => {},
+    'notifications/cancelled': (params) => cancelCall(params?.requestId, params?.reason)
+};
+
+// 处理单条消息，返回响应或 null
+async function handleMessage(message) {
+    if (!message || typeof message !== 'object' || Array.isArray(message)) {
+        return rpcError(null, -32600, 'Invalid Request');
+    }
+    const { id, method, params } = message;
+    const isNotification = id === undefined;
+
+    if (message.jsonrpc !== '2.0' || typeof method !== 'string') {
+        // 客户端对服务端请求的响应（没有 method）无需处理
+        if (method === undefined && ('result' in message || 'error' in message)) {
+            return null;
         }
-        else if (method === 'tools/call' && params?.name === 'panel_feedback') {
-            response = await handleToolCall(id, params);
+        return isNotification ? null : rpcError(id ?? null, -32600, 'Invalid Request');
+    }
+
+    if (isNotification) {
+        const handler = NOTIFICATION_HANDLERS[method];
+        if (handler) {
+            await handler(params);
         }
-        else {
-            response = { jsonrpc: '2.0', id, result: {} };
+        return null;
+    }
+
+    const handler = REQUEST_HANDLERS[method];
+    if (!handler) {
+        return rpcError(id, -32601, `Method not found: ${method}`);
+    }
+    try {
+        return await handler(id, params);
+    } catch (err) {
+        logEvent('error', 'handler.error', { method, error: err.stack || err.message });
+        return rpcError(id, -32603, `Internal error: ${err.message}`);
+    }
+}
+
+// 处理标准输入
+// 正在处理的消息，退出前等它们写出响应
+const inFlight = new Set();
+
+rl.on('line', (line) => {
+    const handling = handleLine(line);
+    inFlight.add(handling);
+    handling.finally(() => inFlight.delete(handling));
+});
+
+async function handleLine(line) {
+    if (!line.trim()) return;
+    logEvent('debug', 'rpc.received', { size: line.length, preview: line.substring(0, 100) });
+
+    let message;
+    try {
+        message = JSON.parse(line);
+    } catch (err) {
+        // 无法解析时拿不到请求 id，按 JSON-RPC 规范以 null 回复
+        respond(rpcError(null, -32700, 'Parse error: ' + err.message));
+        return;
+    }
+
+    if (Array.isArray(message)) {
+        if (message.length === 0) {
+            respond(rpcError(null, -32600, 'Invalid Request: empty batch'));
+            return;
         }
-        
+        const responses = (await Promise.all(message.map(handleMessage))).filter(Boolean);
+        if (responses.length > 0) {
+            respond(responses);
+        }
+        return;
+    }
+
+    const response = await handleMessage(message);
+    if (response) {
         respond(response);
-        
-    } catch (err) {
-        respond({
-            jsonrpc: '2.0',
-            id: null,
-            error: { code: -32700, message: 'Parse error: ' + err.message }
-        });
     }
+}
+
+// 客户端断开：撤回所有等待中的问题，等其他请求写出响应后退出
+rl.on('close', async () => {
+    await Promise.all(Array.from(activeCalls.keys()).map(key =>
+        cancelCall(JSON.parse(key), 'Client disconnected')));
+    await Promise.allSettled(Array.from(inFlight));
+    process.exit(0);
 });
 
 process.stderr.write('panel-feedback MCP wrapper started\n');
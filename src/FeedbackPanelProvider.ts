@@ -1,5 +1,30 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { FormSchema, validateFormValues } from './formSchema';
+import { LOG_DIR } from './eventLog';
+import { RepeatInfo } from './loopDetection';
+import { SearchFilters, SearchSource, SearchableMessage, searchMessages } from './messageSearch';
+import { generateHtmlExport, isImageDataUrl } from './htmlExport';
+
+export type NotifyLevel = 'info' | 'success' | 'warning' | 'error';
+// cancelled：AI 客户端主动取消；disconnected：长时间没有连接在等待，被 MCPServer 清理
+export type CancelKind = 'cancelled' | 'disconnected';
+
+// 消息来自哪个 AI 客户端、哪个对话（initialize 的 clientInfo 和工具参数 conversation_id / conversation_title）
+export interface MessageSource {
+    client?: string;
+    clientVersion?: string;
+    conversationId?: string;
+    conversationTitle?: string;
+}
+
+// 徽标文字，如 "Cursor · refactor-auth"
+export function formatMessageSource(source?: MessageSource): string {
+    if (!source) {
+        return '';
+    }
+    return [source.client, source.conversationTitle || source.conversationId].filter(Boolean).join(' · ');
+}
 
 interface ChatMessage {
     id: string;
@@ -8,6 +33,28 @@ interface ChatMessage {
     timestamp: number;
     images?: string[];
     starred?: boolean;
+    cancelled?: boolean;
+    cancelKind?: CancelKind;
+    source?: MessageSource;
+    // 重复提问合并到同一张卡片时的次数
+    repeatCount?: number;
+    // panel_notify 的状态消息，不需要回复
+    level?: NotifyLevel;
+}
+
+// 一次对话，保存在 <workspace>/.panel-feedback/sessions/<id>.json
+interface ChatSession {
+    id: string;
+    startedAt: number;
+    // 没有 endedAt 的是当前会话，重新加载窗口后恢复
+    endedAt?: number;
+    clients: string[];
+    messageCount: number;
+    messages: ChatMessage[];
+    // 保存时仍在等待回复的问题，重新加载后由 MCPServer 恢复并重新显示，恢复历史时跳过以免重复
+    waitingMessageIds?: string[];
+    // 从导出的 JSON 导入的会话，只读，不能继续
+    importedFrom?: string;
 }
 
 // 生成唯一 ID
@@ -15,6 +62,34 @@ function generateId(): string {
     return Date.now().toString(36) + Math.random().toString(36).substr(2, 9);
 }
 
+// generateId 生成的格式；会话文件位于工作区内（可能随仓库克隆而来），id 会写入 HTML 和文件名
+const SESSION_ID_PATTERN = /^[a-z0-9]+$/;
+const NOTIFY_LEVELS: NotifyLevel[] = ['info', 'success', 'warning', 'error'];
+
+function isValidChatMessage(m: any): m is ChatMessage {
+    return !!m && typeof m === 'object'
+        && typeof m.id === 'string' && SESSION_ID_PATTERN.test(m.id)
+        && (m.role === 'ai' || m.role === 'user')
+        && typeof m.content === 'string'
+        && typeof m.timestamp === 'number'
+        && (m.images === undefined || (Array.isArray(m.images) && m.images.every((img: any) => typeof img === 'string' && isImageDataUrl(img))))
+        && (m.level === undefined || NOTIFY_LEVELS.includes(m.level))
+        && (m.repeatCount === undefined || typeof m.repeatCount === 'number')
+        && (m.source === undefined || (!!m.source && typeof m.source === 'object'));
+}
+
+function isValidChatSession(s: any): s is ChatSession {
+    return !!s && typeof s === 'object'
+        && typeof s.id === 'string' && SESSION_ID_PATTERN.test(s.id)
+        && typeof s.startedAt === 'number'
+        && (s.endedAt === undefined || typeof s.endedAt === 'number')
+        && Array.isArray(s.clients) && s.clients.every((c: any) => typeof c === 'string')
+        && typeof s.messageCount === 'number'
+        && Array.isArray(s.messages) && s.messages.every(isValidChatMessage)
+        && (s.waitingMessageIds === undefined || (Array.isArray(s.waitingMessageIds) && s.waitingMessageIds.every((id: any) => typeof id === 'string')))
+        && (s.importedFrom === undefined || typeof s.importedFrom === 'string');
+}
+
 interface InputHistoryItem {
     text: string;
     timestamp: number;
@@ -33,14 +108,41 @@ interface RuleItem {
     enabled: boolean;
 }
 
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+// panel_confirm 请求：需要用户批准的命令或操作
+export interface ConfirmRequest {
+    action: string;
+    command?: string;
+    risk: RiskLevel;
+}
+
+// 等待用户回复的问题（按 requestId 排队）
+interface PendingQuestion {
+    requestId: string;
+    msgId: string;
+    message: string;
+    options: string[];
+    createdAt: number;
+    form?: FormSchema;
+    confirm?: ConfirmRequest;
+    source?: MessageSource;
+    repeatCount?: number;
+    // 合并到这张卡片的更早的重复提问，用户回复时一起收到同样的答案
+    merged?: PendingQuestion[];
+    resolve: (value: string) => void;
+    reject: (reason: Error) => void;
+    // AI 取消后问题卡片保留显示，直到用户手动关闭
+    cancelled?: boolean;
+    cancelReason?: string;
+    cancelKind?: CancelKind;
+}
+
 export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'feedbackPanel.view';
 
     private _view?: vscode.WebviewView;
-    private _pendingResolve?: (value: string) => void;
-    private _currentMessage: string = '';
-    private _currentOptions: string[] = [];
-    private _currentRequestId?: string;
+    private _pendingQuestions: Map<string, PendingQuestion> = new Map();
     private _chatHistory: ChatMessage[] = [];
     private _rules: RuleItem[] = [];
     private _workspaceName: string = '';
@@ -49,6 +151,12 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
     private static readonly MAX_INPUT_HISTORY = 10;
     private _quickTemplates: QuickTemplate[] = [];
     private _starredMessages: ChatMessage[] = [];
+    private _currentSession?: ChatSession;
+    private static readonly CURRENT_SESSION_KEY = 'currentSessionId';
+    private _sessionSaveTimer?: ReturnType<typeof setTimeout>;
+    private static readonly SESSION_SAVE_DELAY = 1000;
+    // 历史会话的搜索索引（只含文本，不含图片），第一次搜索时建立，写入和删除会话时同步更新
+    private _sessionSearchIndex?: Map<string, SearchSource>;
 
     constructor(private readonly _extensionUri: vscode.Uri) {
         this._workspaceName = vscode.workspace.workspaceFolders?.[0]?.name || '';
@@ -70,34 +178,38 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
 
         webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
 
-        // 如果有待处理的请求，恢复显示当前消息
-        if (this._pendingResolve && this._currentMessage) {
-            console.log('[Panel] Restoring pending request on webview rebuild');
-            setTimeout(() => {
-                const msgData = {
-                    type: 'showMessage',
-                    message: this._currentMessage,
-                    options: this._currentOptions,
-                    history: this._chatHistory
-                };
-                this._view?.webview.postMessage(msgData);
-            }, 100);
+        // 如果有待处理的请求或恢复的会话，恢复显示所有未回答的问题和历史
+        if (this._pendingQuestions.size > 0 || this._chatHistory.length > 0) {
+            console.log(`[Panel] Restoring ${this._pendingQuestions.size} pending questions on webview rebuild`);
+            setTimeout(() => this._syncStateToAllWebviews(), 100);
         }
 
         // 监听来自 webview 的消息
         webviewView.webview.onDidReceiveMessage(data => {
             switch (data.type) {
                 case 'submit':
-                    this._handleSubmit(data.value, data.images);
+                    this._handleSubmit(data.requestId, data.value, data.images);
+                    break;
+                case 'confirmDecision':
+                    this._handleConfirmDecision(data.requestId, !!data.approved, data.command, data.reason);
+                    break;
+                case 'submitForm':
+                    this._handleFormSubmit(data.requestId, data.values);
+                    break;
+                case 'dismissQuestion':
+                    this._dismissQuestion(data.requestId);
+                    break;
+                case 'stopAsking':
+                    this._handleSubmit(data.requestId, this._getLoopStopReply(), []);
                     break;
                 case 'optionSelected':
-                    this._handleSubmit(data.value, []);
+                    this._handleSubmit(data.requestId, data.value, [], data.options || [data.value]);
                     break;
                 case 'clearHistory':
                     this.clearHistory();
                     break;
                 case 'fixedAction':
-                    this._handleFixedAction(data.action, data.text);
+                    this._handleFixedAction(data.requestId, data.action, data.text);
                     break;
                 case 'loadRules':
                     this._loadRules();
@@ -178,11 +290,21 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
                     this._loadStarredMessages();
                     break;
                 case 'openStarredInEditor':
-                    vscode.commands.executeCommand('feedbackPanel.openStarredInEditor');
+                    vscode.commands.executeCommand('feedbackPanel.openStarredInEditor', data.msgId);
                     break;
                 case 'openRulesInEditor':
                     vscode.commands.executeCommand('feedbackPanel.openRulesInEditor');
                     break;
+                case 'openSessions':
+                    vscode.commands.executeCommand('feedbackPanel.openSessions');
+                    break;
+                // ========== 搜索 ==========
+                case 'search':
+                    this._handleSearch(data.query || '', data.filters || {});
+                    break;
+                case 'openSearchResult':
+                    vscode.commands.executeCommand('feedbackPanel.openSessions', data.sessionId, data.msgId);
+                    break;
             }
         });
     }
@@ -193,11 +315,13 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
         this._view?.webview.postMessage({ type: 'versionInfo', version });
     }
 
+    // 打开事件日志所在目录（events.jsonl 及轮转出的 events.N.jsonl）
     private _openLogFolder() {
-        const os = require('os');
-        const path = require('path');
-        const logDir = path.join(os.homedir(), '.panel-feedback');
-        vscode.env.openExternal(vscode.Uri.file(logDir));
+        const fs = require('fs');
+        if (!fs.existsSync(LOG_DIR)) {
+            fs.mkdirSync(LOG_DIR, { recursive: true });
+        }
+        vscode.env.openExternal(vscode.Uri.file(LOG_DIR));
     }
 
     private async _handleSelectFile(selectType: 'file' | 'folder') {
@@ -455,9 +579,172 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
         return 0;
     }
 
-    private _handleSubmit(text: string, images: string[]) {
-        console.log(`[Panel] _handleSubmit called, hasPendingResolve: ${!!this._pendingResolve}, text length: ${text.length}`);
-        if (this._pendingResolve) {
+    // 按 requestId 取出待回答的问题；未指定时回退到最早的一个（已取消的问题不能再回答）
+    private _takePendingQuestion(requestId?: string): PendingQuestion | undefined {
+        const question = requestId
+            ? this._pendingQuestions.get(requestId)
+            : Array.from(this._pendingQuestions.values()).find(q => !q.cancelled);
+        if (!question || question.cancelled) {
+            return undefined;
+        }
+        this._pendingQuestions.delete(question.requestId);
+        return question;
+    }
+
+    // 表单提交：校验失败时把错误发回 webview，用户修改后重新提交
+    private _handleFormSubmit(requestId: string, rawValues: Record<string, any>) {
+        const pending = this._pendingQuestions.get(requestId);
+        if (!pending?.form || pending.cancelled) {
+            return;
+        }
+
+        const { values, errors } = validateFormValues(pending.form, rawValues);
+        if (Object.keys(errors).length > 0) {
+            this._view?.webview.postMessage({ type: 'formErrors', requestId, errors });
+            return;
+        }
+
+        const question = this._takePendingQuestion(requestId)!;
+        const summary = Object.entries(values)
+            .map(([name, value]) => `- ${question.form!.properties[name].title || name}: ${value}`)
+            .join('\n');
+        this._chatHistory.push({
+            id: generateId(),
+            role: 'user',
+            content: summary,
+            timestamp: Date.now()
+        });
+        this._scheduleSessionSave();
+        this._syncStateToAllWebviews();
+        question.resolve(JSON.stringify(values));
+    }
+
+    // 确认请求的批准/拒绝，结果写入审计日志
+    private _handleConfirmDecision(requestId: string, approved: boolean, command: string | undefined, reason: string | undefined) {
+        const pending = this._pendingQuestions.get(requestId);
+        if (!pending?.confirm || pending.cancelled) {
+            return;
+        }
+        const question = this._takePendingQuestion(requestId)!;
+        const confirm = question.confirm!;
+        const editedCommand = confirm.command !== undefined ? (command ?? confirm.command) : null;
+        const trimmedReason = reason?.trim() || '';
+
+        let summary = approved ? '✅ 已批准' : '❌ 已拒绝';
+        if (editedCommand !== null && editedCommand !== confirm.command) {
+            summary += `（命令已修改）\n\`\`\`\n${editedCommand}\n\`\`\``;
+        }
+        if (trimmedReason) {
+            summary += `\n${trimmedReason}`;
+        }
+        this._chatHistory.push({
+            id: generateId(),
+            role: 'user',
+            content: summary,
+            timestamp: Date.now()
+        });
+        this._scheduleSessionSave();
+        this._syncStateToAllWebviews();
+
+        this._appendConfirmAudit({
+            timestamp: new Date().toISOString(),
+            requestId,
+            action: confirm.action,
+            risk: confirm.risk,
+            command: confirm.command ?? null,
+            editedCommand,
+            approved,
+            reason: trimmedReason
+        });
+
+        question.resolve(JSON.stringify({ approved, editedCommand, reason: trimmedReason }));
+    }
+
+    // 审计日志：<workspace>/.panel-feedback/confirm-audit.jsonl，每行一条决定
+    private _appendConfirmAudit(entry: Record<string, any>) {
+        const fs = require('fs');
+        const dataDir = this._getWorkspaceDataDir();
+        if (!dataDir) {
+            console.warn('[Panel] No workspace folder, confirm decision not audited');
+            return;
+        }
+        try {
+            fs.appendFileSync(path.join(dataDir, 'confirm-audit.jsonl'), JSON.stringify(entry) + '\n', 'utf-8');
+        } catch (e) {
+            console.error('Failed to write confirm audit log:', e);
+        }
+    }
+
+    // AI 客户端取消了请求或已断开：标记问题为已取消，保留卡片提示用户
+    public cancelQuestion(requestId: string, reason?: string, kind: CancelKind = 'cancelled') {
+        const question = this._pendingQuestions.get(requestId);
+        if (!question) {
+            this._cancelMergedQuestion(requestId, reason);
+            return;
+        }
+        if (question.cancelled) {
+            return;
+        }
+        console.log(`[Panel] Question ${requestId} ${kind}, reason: ${reason}`);
+
+        // 卡片上还有合并进来的提问在等待时，由最近的一个接管卡片
+        const successor = question.merged?.pop();
+        if (successor) {
+            this._pendingQuestions.delete(requestId);
+            successor.merged = question.merged;
+            this._pendingQuestions.set(successor.requestId, successor);
+            question.reject(new Error(reason || 'Cancelled by client'));
+            this._syncStateToAllWebviews(successor.requestId, requestId);
+            return;
+        }
+
+        question.cancelled = true;
+        question.cancelReason = reason;
+        question.cancelKind = kind;
+
+        const msg = this._chatHistory.find(m => m.id === question.msgId);
+        if (msg) {
+            msg.cancelled = true;
+            msg.cancelKind = kind;
+        }
+
+        question.reject(new Error(reason || 'Cancelled by client'));
+        this._scheduleSessionSave();
+        this._syncStateToAllWebviews();
+    }
+
+    // 取消已合并到其他卡片的提问，卡片本身不变
+    private _cancelMergedQuestion(requestId: string, reason?: string) {
+        for (const question of this._pendingQuestions.values()) {
+            const index = question.merged?.findIndex(q => q.requestId === requestId) ?? -1;
+            if (index >= 0) {
+                console.log(`[Panel] Merged question ${requestId} cancelled, reason: ${reason}`);
+                const [merged] = question.merged!.splice(index, 1);
+                merged.reject(new Error(reason || 'Cancelled by client'));
+                return;
+            }
+        }
+    }
+
+    // 一键回复给反复提问的 AI
+    private _getLoopStopReply(): string {
+        const reply = vscode.workspace.getConfiguration('feedbackPanel').get<string>('loopStopReply', '');
+        return reply.trim() || '不要再重复询问了，请按你的最佳判断继续执行。';
+    }
+
+    // 用户关闭已取消的问题卡片
+    private _dismissQuestion(requestId: string) {
+        const question = this._pendingQuestions.get(requestId);
+        if (question?.cancelled) {
+            this._pendingQuestions.delete(requestId);
+            this._syncStateToAllWebviews();
+        }
+    }
+
+    private _handleSubmit(requestId: string | undefined, text: string, images: string[], selectedOptions: string[] = []) {
+        console.log(`[Panel] _handleSubmit called, requestId: ${requestId}, pending: ${this._pendingQuestions.size}, text length: ${text.length}`);
+        const question = this._takePendingQuestion(requestId);
+        if (question) {
             // 记录用户回复到历史（显示原始内容）
             this._chatHistory.push({
                 id: generateId(),
@@ -466,21 +753,22 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
                 timestamp: Date.now(),
                 images: images.length > 0 ? images : undefined
             });
-            this._updateHistoryInView();
+            this._scheduleSessionSave();
+            this._syncStateToAllWebviews();
 
-            // 附加 rules 后发送给 AI
-            const finalText = this._appendRules(text);
-            const result = images.length > 0
-                ? JSON.stringify({ text: finalText, images })
-                : finalText;
-            this._pendingResolve(result);
-            this._pendingResolve = undefined;
+            // 表单/确认问题被跳过时只返回文本
+            if (question.form || question.confirm) {
+                question.resolve(this._appendRules(text));
+                return;
+            }
+            question.resolve(this._buildFeedbackResult(text, images, selectedOptions));
         }
     }
 
-    private _handleFixedAction(action: string, text: string) {
+    private _handleFixedAction(requestId: string | undefined, action: string, text: string) {
         // 固定操作直接作为用户输入提交
-        if (this._pendingResolve) {
+        const question = this._takePendingQuestion(requestId);
+        if (question) {
             const finalText = this._appendRules(text);
             this._chatHistory.push({
                 id: generateId(),
@@ -488,13 +776,46 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
                 content: text,
                 timestamp: Date.now()
             });
-            this._updateHistoryInView();
-            this._pendingResolve(finalText);
-            this._pendingResolve = undefined;
+            this._scheduleSessionSave();
+            this._syncStateToAllWebviews();
+            question.resolve(question.form || question.confirm ? finalText : this._buildFeedbackResult(text));
+        }
+    }
+
+    // panel_feedback 的回复：text/images 生成兼容旧客户端的 content，structured 作为 structuredContent
+    private _buildFeedbackResult(text: string, images: string[] = [], selectedOptions: string[] = [], endedByUser = false): string {
+        const finalText = endedByUser ? text : this._appendRules(text);
+        return JSON.stringify({
+            text: finalText,
+            images: images.length > 0 ? images : undefined,
+            structured: {
+                selectedOptions,
+                text: selectedOptions.length > 0 ? '' : text,
+                mentionedFiles: this._extractMentionedFiles(text),
+                images: images.length,
+                endedByUser,
+                rulesAppended: finalText !== text
+            }
+        });
+    }
+
+    // @ 引用和拖拽插入的文件都是用反引号包裹的绝对路径
+    private _extractMentionedFiles(text: string): string[] {
+        const files: string[] = [];
+        for (const match of text.matchAll(/`([^`\n]+)`/g)) {
+            const filePath = match[1].trim();
+            if ((path.isAbsolute(filePath) || /^[a-zA-Z]:[\\/]/.test(filePath)) && !files.includes(filePath)) {
+                files.push(filePath);
+            }
         }
+        return files;
     }
 
     private _appendRules(text: string): string {
+        // 关闭后 AI 通过 panel-feedback://rules 资源按需读取
+        if (!vscode.workspace.getConfiguration('feedbackPanel').get<boolean>('appendRulesToReplies', true)) {
+            return text;
+        }
         const enabledRules = this._rules.filter(r => r.enabled).map(r => r.content);
         if (enabledRules.length > 0) {
             return `${text}\n\n---\n[Rules/Memory]:\n${enabledRules.join('\n')}`;
@@ -502,39 +823,36 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
         return text;
     }
 
-    private _getWorkspaceDataDir(): string | null {
+    // create 为 false 时只读取，目录不存在返回 null
+    private _getWorkspaceDataDir(create = true): string | null {
         const fs = require('fs');
         const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
         if (!workspaceFolder) return null;
         const dir = path.join(workspaceFolder.uri.fsPath, '.panel-feedback');
         if (!fs.existsSync(dir)) {
+            if (!create) return null;
             fs.mkdirSync(dir, { recursive: true });
         }
         return dir;
     }
 
-    private _loadRules() {
+    // 只读取 rules.json，不改动内存中的状态
+    private _readRulesFile(): RuleItem[] {
         const fs = require('fs');
-        const dataDir = this._getWorkspaceDataDir();
-        if (!dataDir) {
-            this._rules = [];
-            this._view?.webview.postMessage({ type: 'rulesLoaded', rules: this._rules });
-            return;
-        }
+        const dataDir = this._getWorkspaceDataDir(false);
+        if (!dataDir) return [];
         const rulesFile = path.join(dataDir, 'rules.json');
 
         try {
-            if (fs.existsSync(rulesFile)) {
-                const data = fs.readFileSync(rulesFile, 'utf-8');
-                this._rules = JSON.parse(data);
-            } else {
-                this._rules = [];
-            }
+            return fs.existsSync(rulesFile) ? JSON.parse(fs.readFileSync(rulesFile, 'utf-8')) : [];
         } catch (e) {
             console.error('Failed to load rules:', e);
-            this._rules = [];
+            return [];
         }
+    }
 
+    private _loadRules() {
+        this._loadRulesSync();
         this._view?.webview.postMessage({ type: 'rulesLoaded', rules: this._rules });
     }
 
@@ -702,20 +1020,24 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
 
     // ========== 对话导出功能 ==========
 
-    private async _handleExportConversation(format: 'md' | 'json') {
-        if (this._chatHistory.length === 0) {
+    // session 为空时导出当前对话
+    private async _handleExportConversation(format: 'md' | 'json' | 'html', session?: ChatSession) {
+        const messages = session ? session.messages : this._chatHistory;
+        if (messages.length === 0) {
             vscode.window.showWarningMessage('没有可导出的对话记录');
             return;
         }
 
-        const defaultName = `conversation-${new Date().toISOString().slice(0, 10)}`;
-        const ext = format === 'md' ? 'md' : 'json';
+        const defaultName = `conversation-${new Date(session ? session.startedAt : Date.now()).toISOString().slice(0, 10)}`;
+        const filters: Record<string, { [name: string]: string[] }> = {
+            md: { 'Markdown': ['md'] },
+            json: { 'JSON': ['json'] },
+            html: { 'HTML': ['html'] }
+        };
 
         const uri = await vscode.window.showSaveDialog({
-            defaultUri: vscode.Uri.file(`${defaultName}.${ext}`),
-            filters: format === 'md'
-                ? { 'Markdown': ['md'] }
-                : { 'JSON': ['json'] }
+            defaultUri: vscode.Uri.file(`${defaultName}.${format}`),
+            filters: filters[format]
         });
 
         if (!uri) return;
@@ -724,12 +1046,24 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
         let content: string;
 
         if (format === 'md') {
-            content = this._generateMarkdownExport();
+            content = this._generateMarkdownExport(messages);
+        } else if (format === 'html') {
+            content = generateHtmlExport({
+                title: '对话记录',
+                workspace: this._workspaceName,
+                exportedAt: Date.now()
+            }, messages.map(msg => ({
+                kind: msg.level ? 'status' : msg.role,
+                heading: this._exportHeading(msg),
+                timestamp: msg.timestamp,
+                content: msg.content,
+                images: msg.images
+            })));
         } else {
             content = JSON.stringify({
                 exportedAt: new Date().toISOString(),
                 workspace: this._workspaceName,
-                messages: this._chatHistory
+                messages
             }, null, 2);
         }
 
@@ -741,7 +1075,7 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
         }
     }
 
-    private _generateMarkdownExport(): string {
+    private _generateMarkdownExport(messages: ChatMessage[]): string {
         const lines: string[] = [
             '# 对话记录',
             '',
@@ -752,10 +1086,9 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
             ''
         ];
 
-        for (const msg of this._chatHistory) {
+        for (const msg of messages) {
             const time = new Date(msg.timestamp).toLocaleString();
-            const role = msg.role === 'ai' ? '🤖 AI' : '👤 用户';
-            lines.push(`## ${role}`);
+            lines.push(`## ${this._exportHeading(msg)}`);
             lines.push(`*${time}*`);
             lines.push('');
             lines.push(msg.content);
@@ -771,6 +1104,74 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
         return lines.join('\n');
     }
 
+    // 如 "🤖 AI · Cursor · refactor-auth"
+    private _exportHeading(msg: ChatMessage): string {
+        const role = msg.level ? `📢 AI 状态（${msg.level}）` : msg.role === 'ai' ? '🤖 AI' : '👤 用户';
+        const sourceLabel = formatMessageSource(msg.source);
+        return `${role}${sourceLabel ? ` · ${sourceLabel}` : ''}`;
+    }
+
+    // 导入导出的 JSON 对话，保存为只读的历史会话并在会话浏览器中打开
+    public async importConversation(context: vscode.ExtensionContext) {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'JSON': ['json'] },
+            title: '导入对话'
+        });
+        if (!uris || uris.length === 0) return;
+
+        const fs = require('fs');
+        let messages: ChatMessage[];
+        try {
+            messages = this._parseImportedMessages(JSON.parse(fs.readFileSync(uris[0].fsPath, 'utf-8')));
+        } catch (e: any) {
+            vscode.window.showErrorMessage(`导入失败: ${e.message || e}`);
+            return;
+        }
+        if (!this._getSessionsDir(true)) {
+            vscode.window.showErrorMessage('导入失败: 请先打开一个工作区');
+            return;
+        }
+
+        const timestamps = messages.map(m => m.timestamp);
+        const clients = Array.from(new Set(messages.map(m => m.source?.client).filter((c): c is string => !!c)));
+        const session: ChatSession = {
+            id: generateId(),
+            startedAt: Math.min(...timestamps),
+            endedAt: Math.max(...timestamps),
+            clients,
+            messageCount: messages.length,
+            messages,
+            importedFrom: uris[0].fsPath
+        };
+        this._writeSession(session);
+        this.openSessionsInEditor(context, session.id);
+    }
+
+    // 接受导出的 { messages } 或消息数组，只保留能识别的字段
+    private _parseImportedMessages(data: any): ChatMessage[] {
+        const raw = Array.isArray(data) ? data : data?.messages;
+        if (!Array.isArray(raw)) {
+            throw new Error('不是导出的对话 JSON（缺少 messages）');
+        }
+        const messages: ChatMessage[] = raw
+            .filter(m => m && (m.role === 'ai' || m.role === 'user') && typeof m.content === 'string')
+            .map(m => ({
+                // 文件内容不可信，id 会写入会话浏览器的 HTML，一律重新生成
+                id: generateId(),
+                role: m.role,
+                content: m.content,
+                timestamp: typeof m.timestamp === 'number' ? m.timestamp : Date.now(),
+                images: Array.isArray(m.images) ? m.images.filter((img: any) => typeof img === 'string' && isImageDataUrl(img)) : undefined,
+                source: m.source && typeof m.source === 'object' ? m.source : undefined,
+                level: NOTIFY_LEVELS.includes(m.level) ? m.level : undefined
+            }));
+        if (messages.length === 0) {
+            throw new Error('没有可导入的消息');
+        }
+        return messages;
+    }
+
     // ========== 快捷模板功能 ==========
 
     private _getTemplatesFilePath(): string {
@@ -780,20 +1181,21 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
         return path.join(dir, 'templates.json');
     }
 
-    private _loadTemplates() {
+    // 只读取 templates.json，文件不存在时返回 undefined
+    private _readTemplatesFile(): QuickTemplate[] | undefined {
         const fs = require('fs');
         const filePath = this._getTemplatesFilePath();
 
         try {
-            if (fs.existsSync(filePath)) {
-                const data = fs.readFileSync(filePath, 'utf-8');
-                this._quickTemplates = JSON.parse(data);
-            }
+            return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : undefined;
         } catch (e) {
             console.error('Failed to load templates:', e);
-            this._quickTemplates = [];
+            return [];
         }
+    }
 
+    private _loadTemplates() {
+        this._quickTemplates = this._readTemplatesFile() ?? this._quickTemplates;
         this._view?.webview.postMessage({ type: 'templatesLoaded', templates: this._quickTemplates });
     }
 
@@ -842,34 +1244,28 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
 
     // ========== 消息收藏功能 ==========
 
-    private _getStarredFilePath(): string | null {
-        const dataDir = this._getWorkspaceDataDir();
+    private _getStarredFilePath(create = true): string | null {
+        const dataDir = this._getWorkspaceDataDir(create);
         if (!dataDir) return null;
         return path.join(dataDir, 'starred.json');
     }
 
-    private _loadStarredMessages() {
+    // 只读取 starred.json，不改动内存中的状态
+    private _readStarredFile(): ChatMessage[] {
         const fs = require('fs');
-        const filePath = this._getStarredFilePath();
-
-        if (!filePath) {
-            this._starredMessages = [];
-            this._view?.webview.postMessage({ type: 'starredLoaded', starred: this._starredMessages });
-            return;
-        }
+        const filePath = this._getStarredFilePath(false);
+        if (!filePath) return [];
 
         try {
-            if (fs.existsSync(filePath)) {
-                const data = fs.readFileSync(filePath, 'utf-8');
-                this._starredMessages = JSON.parse(data);
-            } else {
-                this._starredMessages = [];
-            }
+            return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : [];
         } catch (e) {
             console.error('Failed to load starred messages:', e);
-            this._starredMessages = [];
+            return [];
         }
+    }
 
+    private _loadStarredMessages() {
+        this._starredMessages = this._readStarredFile();
         this._view?.webview.postMessage({ type: 'starredLoaded', starred: this._starredMessages });
     }
 
@@ -925,77 +1321,194 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
     }
 
 
-    private _updateHistoryInView() {
-        const msgData = {
-            type: 'updateHistory',
-            history: this._chatHistory
-        };
-        if (this._view) {
-            this._view.webview.postMessage(msgData);
+    // ========== 会话记录 ==========
+
+    // 只在保存时创建目录，读取时目录不存在返回 null
+    private _getSessionsDir(create = false): string | null {
+        const fs = require('fs');
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) return null;
+        const dir = path.join(workspaceFolder.uri.fsPath, '.panel-feedback', 'sessions');
+        if (!fs.existsSync(dir)) {
+            if (!create) return null;
+            fs.mkdirSync(dir, { recursive: true });
         }
+        return dir;
     }
 
-    // 设置结束对话回调
-    public setOnEndConversation(callback: () => void) {
-        this._onEndConversation = callback;
+    // 按开始时间倒序列出所有会话，跳过无法解析的文件
+    private _listSessions(): ChatSession[] {
+        const fs = require('fs');
+        const dir = this._getSessionsDir();
+        if (!dir) return [];
+
+        const sessions: ChatSession[] = [];
+        for (const file of fs.readdirSync(dir) as string[]) {
+            if (!file.endsWith('.json')) continue;
+            const session = this._readSession(file.slice(0, -'.json'.length));
+            if (session) {
+                sessions.push(session);
+            }
+        }
+        return sessions.sort((a, b) => b.startedAt - a.startedAt);
     }
 
-    // 设置扩展上下文
-    public setExtensionContext(context: vscode.ExtensionContext) {
-        this._extensionContext = context;
+    // 格式不对或 id 与文件名不一致的会话文件当作不存在
+    private _readSession(id: string): ChatSession | undefined {
+        const fs = require('fs');
+        if (typeof id !== 'string' || !SESSION_ID_PATTERN.test(id)) return undefined;
+        const dir = this._getSessionsDir();
+        if (!dir) return undefined;
+        try {
+            const session = JSON.parse(fs.readFileSync(path.join(dir, `${id}.json`), 'utf-8'));
+            if (!isValidChatSession(session) || session.id !== id) {
+                console.warn(`[Panel] Ignoring invalid session file ${id}.json`);
+                return undefined;
+            }
+            return session;
+        } catch (e) {
+            console.error(`Failed to load session ${id}:`, e);
+            return undefined;
+        }
     }
 
-    private _handleEndConversation() {
-        console.log('End conversation triggered, pendingResolve:', !!this._pendingResolve);
-        // 结束对话：向 AI 发送结束信号
-        if (this._pendingResolve) {
-            console.log('Resolving pending request with end signal');
-            this._pendingResolve('[用户主动结束了对话]');
-            this._pendingResolve = undefined;
+    private _writeSession(session: ChatSession) {
+        const fs = require('fs');
+        const dir = this._getSessionsDir(true);
+        if (!dir) return;
+        try {
+            fs.writeFileSync(path.join(dir, `${session.id}.json`), JSON.stringify(session), 'utf-8');
+            this._sessionSearchIndex?.set(session.id, this._toSearchSource(session));
+        } catch (e) {
+            console.error('Failed to save session:', e);
         }
-        // 调用结束对话回调（清理 MCP 状态）
-        this._onEndConversation?.();
-        // 清除历史并重置 UI
-        this.clearHistory();
     }
 
-    public clearHistory() {
-        console.log('clearHistory called');
-        this._chatHistory = [];
-        this._currentMessage = '';
-        this._currentOptions = [];
-        // 发送重置消息到 webview
-        const msgData = { type: 'resetToEmpty' };
-        if (this._view) {
-            console.log('Sending resetToEmpty to sidebar');
-            this._view.webview.postMessage(msgData);
+    private _deleteSession(id: string) {
+        const fs = require('fs');
+        const dir = this._getSessionsDir();
+        if (!dir) return;
+        try {
+            fs.rmSync(path.join(dir, `${id}.json`), { force: true });
+            this._sessionSearchIndex?.delete(id);
+        } catch (e) {
+            console.error('Failed to delete session:', e);
         }
     }
 
-    // 同步状态到 webview
-    private _syncStateToAllWebviews() {
-        const msgData = {
-            type: 'showMessage',
-            message: this._currentMessage,
-            options: this._currentOptions,
-            history: this._chatHistory
-        };
-        if (this._view) {
-            this._view.webview.postMessage(msgData);
+    // 历史变化后延迟保存，短时间内的连续变化只写一次
+    private _scheduleSessionSave() {
+        clearTimeout(this._sessionSaveTimer);
+        this._sessionSaveTimer = setTimeout(() => this._saveCurrentSession(), FeedbackPanelProvider.SESSION_SAVE_DELAY);
+    }
+
+    // 扩展停用时写入还没保存的变化
+    public flushSession() {
+        if (this._sessionSaveTimer) {
+            this._saveCurrentSession();
         }
     }
 
-    public openSettings() {
-        const msgData = { type: 'openSettings' };
-        if (this._view) {
-            this._view.webview.postMessage(msgData);
+    // 第一条消息出现时创建会话，之后每次变化覆盖写入
+    private _saveCurrentSession() {
+        clearTimeout(this._sessionSaveTimer);
+        this._sessionSaveTimer = undefined;
+        if (this._chatHistory.length === 0 && !this._currentSession) {
+            return;
+        }
+        if (!this._currentSession) {
+            this._setCurrentSession({
+                id: generateId(),
+                startedAt: this._chatHistory[0].timestamp,
+                clients: [],
+                messageCount: 0,
+                messages: []
+            });
+        }
+        const session = this._currentSession!;
+        session.messages = this._chatHistory;
+        session.messageCount = this._chatHistory.length;
+        for (const msg of this._chatHistory) {
+            if (msg.source?.client && !session.clients.includes(msg.source.client)) {
+                session.clients.push(msg.source.client);
+            }
+        }
+        session.waitingMessageIds = Array.from(this._pendingQuestions.values())
+            .filter(q => !q.cancelled)
+            .map(q => q.msgId);
+        this._writeSession(session);
+    }
+
+    // 清除历史或结束对话时记录结束时间，之后的消息属于新会话
+    private _endCurrentSession() {
+        this._saveCurrentSession();
+        if (!this._currentSession) {
+            return;
+        }
+        const session = this._currentSession;
+        this._setCurrentSession(undefined);
+        if (session.messageCount === 0) {
+            // 消息都移到了继续的会话中，不保留空会话
+            this._deleteSession(session.id);
+            return;
+        }
+        session.endedAt = Date.now();
+        session.waitingMessageIds = undefined;
+        this._writeSession(session);
+    }
+
+    // 当前会话的 id 记在 workspaceState 中，而不是工作区目录里：
+    // 只恢复本机写入的会话，随仓库克隆来的会话文件不会在启动时被加载
+    private _setCurrentSession(session: ChatSession | undefined) {
+        this._currentSession = session;
+        this._extensionContext?.workspaceState.update(FeedbackPanelProvider.CURRENT_SESSION_KEY, session?.id);
+    }
+
+    // 重新加载窗口后恢复上次未结束的会话，只读取这一个文件
+    private _restoreSession() {
+        const id = this._extensionContext?.workspaceState.get<string>(FeedbackPanelProvider.CURRENT_SESSION_KEY);
+        const session = id ? this._readSession(id) : undefined;
+        if (!session || session.endedAt) {
+            return;
+        }
+        const waiting = new Set(session.waitingMessageIds || []);
+        this._currentSession = session;
+        this._chatHistory = session.messages.filter(m => !waiting.has(m.id));
+        console.log(`[Panel] Restored session ${session.id} with ${this._chatHistory.length} messages`);
+    }
+
+    // 继续一个历史会话：当前会话结束，等待中的问题移到继续的会话中
+    private _resumeSession(id: string) {
+        if (this._currentSession?.id === id) {
+            return;
+        }
+        const session = this._readSession(id);
+        if (!session) {
+            vscode.window.showErrorMessage('会话不存在或已损坏');
+            return;
+        }
+        if (session.importedFrom) {
+            vscode.window.showWarningMessage('导入的会话是只读的，不能继续');
+            return;
         }
+        const waitingIds = new Set(Array.from(this._pendingQuestions.values()).map(q => q.msgId));
+        const waitingMessages = this._chatHistory.filter(m => waitingIds.has(m.id));
+        this._chatHistory = this._chatHistory.filter(m => !waitingIds.has(m.id));
+        this._endCurrentSession();
+
+        session.endedAt = undefined;
+        this._setCurrentSession(session);
+        this._chatHistory = [...session.messages, ...waitingMessages];
+        this._scheduleSessionSave();
+        this._syncStateToAllWebviews();
+        vscode.commands.executeCommand('feedbackPanel.view.focus');
     }
 
-    public openStarredInEditor(context: vscode.ExtensionContext) {
+    // 在编辑器标签页中浏览历史会话，可只读查看、继续或导出；指定 sessionId 时直接打开该会话并定位到 msgId
+    public openSessionsInEditor(context: vscode.ExtensionContext, sessionId?: string, msgId?: string) {
         const panel = vscode.window.createWebviewPanel(
-            'starredMessages',
-            '⭐ 收藏的消息',
+            'chatSessions',
+            '🗂️ 历史会话',
             vscode.ViewColumn.One,
             {
                 enableScripts: true,
@@ -1003,45 +1516,447 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
             }
         );
 
+        let selectedId = sessionId;
+        let focusMsgId = msgId;
         const updateContent = () => {
-            panel.webview.html = this._getStarredPanelHtml();
+            const selected = selectedId ? this._readSession(selectedId) : undefined;
+            panel.webview.html = this._getSessionsPanelHtml(selected ? [] : this._listSessions(), selected, focusMsgId);
+            focusMsgId = undefined;
         };
 
         updateContent();
 
         panel.webview.onDidReceiveMessage(data => {
-            if (data.type === 'unstar') {
-                // 直接从收藏列表删除
-                const index = this._starredMessages.findIndex(m => m.id === data.msgId);
-                if (index !== -1) {
-                    this._starredMessages.splice(index, 1);
-                    this._saveStarredMessages();
-                    updateContent();
-                    // 同步到侧边栏
-                    this._view?.webview.postMessage({
-                        type: 'starToggled',
-                        msgId: data.msgId,
-                        starred: false,
-                        starredMessages: this._starredMessages
-                    });
+            if (data.type === 'openSession') {
+                selectedId = data.id;
+                updateContent();
+            } else if (data.type === 'back') {
+                selectedId = undefined;
+                updateContent();
+            } else if (data.type === 'resumeSession') {
+                this._resumeSession(data.id);
+                updateContent();
+            } else if (data.type === 'importConversation') {
+                this.importConversation(context);
+            } else if (data.type === 'exportSession') {
+                const session = this._readSession(data.id);
+                if (session) {
+                    this._handleExportConversation(data.format, session);
                 }
-            } else if (data.type === 'copyContent') {
+            }
+        });
+    }
+
+    private _getSessionsPanelHtml(sessions: ChatSession[], selected?: ChatSession, focusMsgId?: string): string {
+        const currentId = this._currentSession?.id;
+        const formatRange = (session: ChatSession) =>
+            `${new Date(session.startedAt).toLocaleString()} ~ ${session.id === currentId ? '当前' : session.endedAt ? new Date(session.endedAt).toLocaleString() : '未结束'}`;
+        const actions = (session: ChatSession) => {
+            const id = this._escapeAttr(session.id);
+            return `
+            ${session.id === currentId || session.importedFrom ? '' : `<button class="btn resume-btn" data-id="${id}" title="在侧边栏中继续此会话">▶️ 继续</button>`}
+            <button class="btn export-btn" data-id="${id}" data-format="md" title="导出为 Markdown">📄 MD</button>
+            <button class="btn export-btn" data-id="${id}" data-format="json" title="导出为 JSON">📋 JSON</button>
+            <button class="btn export-btn" data-id="${id}" data-format="html" title="导出为 HTML（图片和格式内联）">🌐 HTML</button>`;
+        };
+        const imported = (session: ChatSession) => session.importedFrom
+            ? ` · <span title="${this._escapeAttr(session.importedFrom)}">📥 导入（只读）</span>`
+            : '';
+
+        let body: string;
+        if (selected) {
+            const messagesHtml = selected.messages.map(msg => {
+                const role = msg.level ? `📢 AI 状态（${msg.level}）` : msg.role === 'ai' ? '🤖 AI' : '👤 用户';
+                const sourceLabel = formatMessageSource(msg.source);
+                return `
+                <div class="message ${msg.role === 'ai' ? 'ai' : 'user'}${msg.id === focusMsgId ? ' focused' : ''}" id="msg-${this._escapeAttr(msg.id)}">
+                    <div class="message-header">
+                        <span class="role">${role}${sourceLabel ? ` · ${this._escapeHtml(sourceLabel)}` : ''}</span>
+                        <span class="time">${new Date(msg.timestamp).toLocaleString()}</span>
+                    </div>
+                    <div class="content">${this._escapeHtml(msg.content)}</div>
+                    ${msg.images && msg.images.length > 0 ? `<div class="time">[包含 ${msg.images.length} 张图片]</div>` : ''}
+                </div>`;
+            }).join('');
+            body = `
+    <div class="toolbar">
+        <button class="btn back-btn">← 返回列表</button>
+        <div class="actions">${actions(selected)}</div>
+    </div>
+    <h1>${formatRange(selected)}</h1>
+    <div class="meta">${selected.messageCount} 条消息${selected.clients.length ? ` · ${this._escapeHtml(selected.clients.join(', '))}` : ''}${imported(selected)}</div>
+    ${messagesHtml || '<div class="empty">没有消息</div>'}`;
+        } else {
+            const listHtml = sessions.length === 0
+                ? '<div class="empty">暂无历史会话</div>'
+                : sessions.map(session => {
+                    const first = session.messages.find(m => m.role === 'ai') || session.messages[0];
+                    const preview = first ? first.content.replace(/\s+/g, ' ').substring(0, 120) : '';
+                    return `
+                <div class="session-item${session.id === currentId ? ' current' : ''}" data-id="${this._escapeAttr(session.id)}">
+                    <div class="session-header">
+                        <span class="time">${formatRange(session)}</span>
+                        <div class="actions">${actions(session)}</div>
+                    </div>
+                    <div class="meta">${session.messageCount} 条消息${session.clients.length ? ` · ${this._escapeHtml(session.clients.join(', '))}` : ''}${imported(session)}</div>
+                    <div class="preview">${this._escapeHtml(preview)}</div>
+                </div>`;
+                }).join('');
+            body = `
+    <div class="toolbar">
+        <h1>🗂️ 历史会话 (${sessions.length})</h1>
+        <button class="btn import-btn" title="导入导出的 JSON 对话">📥 导入对话</button>
+    </div>
+    ${listHtml}`;
+        }
+
+        return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            padding: 16px;
+            color: var(--vscode-foreground);
+            background: var(--vscode-editor-background);
+        }
+        h1 {
+            font-size: 18px;
+            margin-bottom: 8px;
+            color: var(--vscode-foreground);
+        }
+        .empty {
+            text-align: center;
+            color: var(--vscode-descriptionForeground);
+            padding: 40px;
+        }
+        .toolbar, .session-header, .message-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            margin-bottom: 8px;
+        }
+        .session-item {
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 8px;
+            padding: 12px;
+            margin-bottom: 12px;
+            cursor: pointer;
+        }
+        .session-item:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        .session-item.current {
+            border-color: var(--vscode-focusBorder);
+        }
+        .time, .meta {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .meta {
+            margin-bottom: 12px;
+        }
+        .session-item .meta {
+            margin-bottom: 6px;
+        }
+        .preview {
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .actions {
+            display: flex;
+            gap: 8px;
+        }
+        .btn {
+            background: transparent;
+            border: none;
+            color: var(--vscode-foreground);
+            cursor: pointer;
+            font-size: 12px;
+            padding: 4px 8px;
+            border-radius: 4px;
+            opacity: 0.8;
+        }
+        .btn:hover {
+            opacity: 1;
+            background: var(--vscode-toolbar-hoverBackground);
+        }
+        .message {
+            border-left: 3px solid var(--vscode-widget-border);
+            padding: 8px 12px;
+            margin-bottom: 12px;
+        }
+        .message.ai {
+            border-left-color: var(--vscode-textLink-foreground);
+        }
+        .message.focused {
+            background: var(--vscode-editor-findMatchHighlightBackground);
+        }
+        .role {
+            font-weight: bold;
+            font-size: 12px;
+        }
+        .content {
+            white-space: pre-wrap;
+            word-break: break-word;
+            line-height: 1.6;
+        }
+    </style>
+</head>
+<body>
+    ${body}
+    <script>
+        const vscode = acquireVsCodeApi();
+        document.querySelectorAll('.session-item').forEach(item => {
+            item.onclick = () => {
+                vscode.postMessage({ type: 'openSession', id: item.dataset.id });
+            };
+        });
+        document.querySelectorAll('.resume-btn').forEach(btn => {
+            btn.onclick = (e) => {
+                e.stopPropagation();
+                vscode.postMessage({ type: 'resumeSession', id: btn.dataset.id });
+            };
+        });
+        document.querySelectorAll('.export-btn').forEach(btn => {
+            btn.onclick = (e) => {
+                e.stopPropagation();
+                vscode.postMessage({ type: 'exportSession', id: btn.dataset.id, format: btn.dataset.format });
+            };
+        });
+        document.querySelectorAll('.back-btn').forEach(btn => {
+            btn.onclick = () => {
+                vscode.postMessage({ type: 'back' });
+            };
+        });
+        document.querySelectorAll('.import-btn').forEach(btn => {
+            btn.onclick = () => {
+                vscode.postMessage({ type: 'importConversation' });
+            };
+        });
+        const focused = document.querySelector('.message.focused');
+        if (focused) {
+            focused.scrollIntoView({ block: 'center' });
+        }
+    </script>
+</body>
+</html>`;
+    }
+
+    // ========== 搜索 ==========
+
+    // 搜索当前对话、历史会话和收藏，结果和出现过的客户端（用于筛选）一起发回 webview
+    private _handleSearch(query: string, filters: SearchFilters) {
+        if (!this._sessionSearchIndex) {
+            this._sessionSearchIndex = new Map(this._listSessions().map(session => [session.id, this._toSearchSource(session)]));
+        }
+        const sessions = Array.from(this._sessionSearchIndex.values())
+            .filter(source => source.sessionId !== this._currentSession?.id);
+        const sources: SearchSource[] = [
+            { scope: 'current', messages: this._chatHistory },
+            ...sessions,
+            // 收藏的消息在对话或会话中已经找到时不再重复列出
+            { scope: 'starred', messages: this._starredMessages }
+        ];
+
+        const clients = new Set<string>();
+        for (const source of sources) {
+            for (const msg of source.messages) {
+                if (msg.source?.client) {
+                    clients.add(msg.source.client);
+                }
+            }
+        }
+
+        this._view?.webview.postMessage({
+            type: 'searchResults',
+            query,
+            results: searchMessages(sources, query, filters),
+            clients: Array.from(clients).sort()
+        });
+    }
+
+    private _toSearchSource(session: ChatSession): SearchSource {
+        const messages: SearchableMessage[] = session.messages.map(msg => ({
+            id: msg.id,
+            role: msg.role,
+            content: msg.content,
+            timestamp: msg.timestamp,
+            source: msg.source?.client ? { client: msg.source.client } : undefined
+        }));
+        return { scope: 'session', sessionId: session.id, messages };
+    }
+
+    // ========== MCP 资源 ==========
+    // 供 MCPServer 的 resources/read 使用，图片只保留数量，避免返回大段 Base64。
+    // 直接读取文件，不创建目录、不通知 webview
+
+    public getEnabledRules(): string[] {
+        return this._readRulesFile().filter(r => r.enabled).map(r => r.content);
+    }
+
+    public getStarredMessages() {
+        return this._readStarredFile().map(m => this._toResourceMessage(m));
+    }
+
+    public getChatHistory() {
+        return this._chatHistory.map(m => this._toResourceMessage(m));
+    }
+
+    public getQuickTemplates(): QuickTemplate[] {
+        return this._readTemplatesFile() ?? this._quickTemplates;
+    }
+
+    private _toResourceMessage(msg: ChatMessage) {
+        const { images, ...rest } = msg;
+        return images && images.length > 0 ? { ...rest, imageCount: images.length } : rest;
+    }
+
+    private _updateHistoryInView() {
+        const msgData = {
+            type: 'updateHistory',
+            history: this._chatHistory
+        };
+        if (this._view) {
+            this._view.webview.postMessage(msgData);
+        }
+    }
+
+    // 设置结束对话回调
+    public setOnEndConversation(callback: () => void) {
+        this._onEndConversation = callback;
+    }
+
+    // 设置扩展上下文
+    public setExtensionContext(context: vscode.ExtensionContext) {
+        this._extensionContext = context;
+        this._restoreSession();
+    }
+
+    private _handleEndConversation() {
+        console.log('End conversation triggered, pending questions:', this._pendingQuestions.size);
+        // 结束对话：向所有等待中的 AI 请求发送结束信号
+        this._resolveAllPending('[用户主动结束了对话]');
+        // 调用结束对话回调（清理 MCP 状态）
+        this._onEndConversation?.();
+        // 清除历史并重置 UI
+        this.clearHistory();
+    }
+
+    // 用同一段文字回复所有等待中的问题，不让 AI 一直等到被清理
+    private _resolveAllPending(text: string) {
+        for (const question of this._pendingQuestions.values()) {
+            if (question.cancelled) continue;
+            console.log(`Resolving pending request ${question.requestId}: ${text}`);
+            question.resolve(question.form || question.confirm ? text : this._buildFeedbackResult(text, [], [], true));
+        }
+        this._pendingQuestions.clear();
+    }
+
+    public clearHistory() {
+        console.log('clearHistory called');
+        this._endCurrentSession();
+        this._chatHistory = [];
+        this._resolveAllPending('[用户清除了对话历史，此问题未回答]');
+        // 发送重置消息到 webview
+        const msgData = { type: 'resetToEmpty' };
+        if (this._view) {
+            console.log('Sending resetToEmpty to sidebar');
+            this._view.webview.postMessage(msgData);
+        }
+    }
+
+    // 同步状态到 webview
+    private _syncStateToAllWebviews(focusRequestId?: string, replacedRequestId?: string) {
+        const loopThreshold = vscode.workspace.getConfiguration('feedbackPanel').get<number>('loopThreshold', 3);
+        const msgData = {
+            type: 'showMessage',
+            questions: Array.from(this._pendingQuestions.values()).map(q => ({
+                requestId: q.requestId,
+                msgId: q.msgId,
+                message: q.message,
+                options: q.options,
+                createdAt: q.createdAt,
+                form: q.form,
+                confirm: q.confirm,
+                cancelled: !!q.cancelled,
+                cancelReason: q.cancelReason,
+                cancelKind: q.cancelKind,
+                source: q.source,
+                repeatCount: q.repeatCount,
+                loopDetected: loopThreshold > 0 && (q.repeatCount || 0) >= loopThreshold
+            })),
+            focusRequestId,
+            replacedRequestId,
+            history: this._chatHistory
+        };
+        if (this._view) {
+            this._view.webview.postMessage(msgData);
+        }
+    }
+
+    public openSettings() {
+        const msgData = { type: 'openSettings' };
+        if (this._view) {
+            this._view.webview.postMessage(msgData);
+        }
+    }
+
+    // 指定 msgId 时打开后定位到该条收藏
+    public openStarredInEditor(context: vscode.ExtensionContext, msgId?: string) {
+        const panel = vscode.window.createWebviewPanel(
+            'starredMessages',
+            '⭐ 收藏的消息',
+            vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        let focusMsgId = msgId;
+        const updateContent = () => {
+            panel.webview.html = this._getStarredPanelHtml(focusMsgId);
+            focusMsgId = undefined;
+        };
+
+        updateContent();
+
+        panel.webview.onDidReceiveMessage(data => {
+            if (data.type === 'unstar') {
+                // 直接从收藏列表删除
+                const index = this._starredMessages.findIndex(m => m.id === data.msgId);
+                if (index !== -1) {
+                    this._starredMessages.splice(index, 1);
+                    this._saveStarredMessages();
+                    updateContent();
+                    // 同步到侧边栏
+                    this._view?.webview.postMessage({
+                        type: 'starToggled',
+                        msgId: data.msgId,
+                        starred: false,
+                        starredMessages: this._starredMessages
+                    });
+                }
+            } else if (data.type === 'copyContent') {
                 vscode.env.clipboard.writeText(data.content);
                 vscode.window.showInformationMessage('已复制到剪贴板');
             }
         });
     }
 
-    private _getStarredPanelHtml(): string {
+    private _getStarredPanelHtml(focusMsgId?: string): string {
         const starredHtml = this._starredMessages.length === 0
             ? '<div class="empty">暂无收藏的消息</div>'
             : this._starredMessages.map(msg => `
-                <div class="starred-item" data-id="${msg.id}">
+                <div class="starred-item${msg.id === focusMsgId ? ' focused' : ''}" data-id="${this._escapeAttr(msg.id)}">
                     <div class="starred-header">
                         <span class="time">${new Date(msg.timestamp).toLocaleString()}</span>
                         <div class="actions">
                             <button class="btn copy-btn" data-content="${this._escapeAttr(msg.content)}" title="复制">📋</button>
-                            <button class="btn unstar-btn" data-id="${msg.id}" title="取消收藏">⭐</button>
+                            <button class="btn unstar-btn" data-id="${this._escapeAttr(msg.id)}" title="取消收藏">⭐</button>
                         </div>
                     </div>
                     <div class="content">${this._escapeHtml(msg.content)}</div>
@@ -1076,6 +1991,9 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
             padding: 12px;
             margin-bottom: 12px;
         }
+        .starred-item.focused {
+            background: var(--vscode-editor-findMatchHighlightBackground);
+        }
         .starred-header {
             display: flex;
             justify-content: space-between;
@@ -1127,6 +2045,10 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
                 setTimeout(() => btn.textContent = '📋', 1500);
             };
         });
+        const focused = document.querySelector('.starred-item.focused');
+        if (focused) {
+            focused.scrollIntoView({ block: 'center' });
+        }
     </script>
 </body>
 </html>`;
@@ -1193,23 +2115,7 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
     }
 
     private _loadRulesSync() {
-        const fs = require('fs');
-        const dataDir = this._getWorkspaceDataDir();
-        if (!dataDir) {
-            this._rules = [];
-            return;
-        }
-        const rulesFile = path.join(dataDir, 'rules.json');
-        try {
-            if (fs.existsSync(rulesFile)) {
-                const data = fs.readFileSync(rulesFile, 'utf-8');
-                this._rules = JSON.parse(data);
-            } else {
-                this._rules = [];
-            }
-        } catch (e) {
-            this._rules = [];
-        }
+        this._rules = this._readRulesFile();
     }
 
     private _getRulesPanelHtml(): string {
@@ -1386,27 +2292,67 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
 </html>`;
     }
 
-    public async showMessage(message: string, options?: string[], requestId?: string): Promise<string> {
+    // repeat：MCPServer 检测到的重复提问，合并到上一个问题的卡片
+    public async showMessage(message: string, options?: string[], requestId?: string, source?: MessageSource, repeat?: RepeatInfo): Promise<string> {
         console.log(`[Panel] showMessage called, requestId: ${requestId}, message length: ${message.length}, options:`, options);
+        return this._askQuestion(message, options || [], requestId, { source }, repeat);
+    }
 
-        this._currentMessage = message;
-        this._currentOptions = options || [];
-        this._currentRequestId = requestId;
+    // 显示表单，用户提交后返回字段值的 JSON 字符串
+    public async showForm(message: string, form: FormSchema, requestId?: string, source?: MessageSource): Promise<string> {
+        console.log(`[Panel] showForm called, requestId: ${requestId}, fields:`, Object.keys(form.properties));
+        return this._askQuestion(message, [], requestId, { form, source });
+    }
 
-        // 记录 AI 消息到历史
-        this._chatHistory.push({
-            id: generateId(),
-            role: 'ai',
-            content: message,
-            timestamp: Date.now()
-        });
+    // 显示需要批准的命令/操作，返回 { approved, editedCommand, reason } 的 JSON 字符串
+    public async showConfirm(confirm: ConfirmRequest, requestId?: string, source?: MessageSource): Promise<string> {
+        console.log(`[Panel] showConfirm called, requestId: ${requestId}, risk: ${confirm.risk}`);
+        const riskLabel = { low: '低', medium: '中', high: '高' }[confirm.risk];
+        let message = `**[风险：${riskLabel}]** ${confirm.action}`;
+        if (confirm.command !== undefined) {
+            message += `\n\n\`\`\`\n${confirm.command}\n\`\`\``;
+        }
+        return this._askQuestion(message, [], requestId, { confirm, source });
+    }
 
-        const msgData = {
-            type: 'showMessage',
-            message: message,
-            options: options || [],
-            history: this._chatHistory
-        };
+    private async _askQuestion(
+        message: string,
+        options: string[],
+        requestId?: string,
+        extra: Pick<PendingQuestion, 'form' | 'confirm' | 'source'> = {},
+        repeat?: RepeatInfo
+    ): Promise<string> {
+        const id = requestId || generateId();
+        let msgId = generateId();
+        const repeatCount = repeat?.count;
+
+        // 上一次的问题还在等待时合并到同一张卡片，历史中只保留一条并更新次数；
+        // 之前的调用方不会被拒绝，用户回复后和本次一起收到答案
+        const previous = repeat && this._pendingQuestions.get(repeat.previousRequestId);
+        const previousMsg = previous && !previous.cancelled && this._chatHistory.find(m => m.id === previous.msgId);
+        let replacedRequestId: string | undefined;
+        let merged: PendingQuestion[] | undefined;
+        if (previous && previousMsg) {
+            this._pendingQuestions.delete(previous.requestId);
+            merged = [...(previous.merged || []), previous];
+            previous.merged = undefined;
+            replacedRequestId = previous.requestId;
+            msgId = previousMsg.id;
+            previousMsg.content = message;
+            previousMsg.timestamp = Date.now();
+            previousMsg.source = extra.source;
+            previousMsg.repeatCount = repeatCount;
+        } else {
+            // 记录 AI 消息到历史
+            this._chatHistory.push({
+                id: msgId,
+                role: 'ai',
+                content: message,
+                timestamp: Date.now(),
+                source: extra.source,
+                repeatCount
+            });
+        }
 
         // 尝试多次确保 webview 可用
         let retries = 0;
@@ -1417,20 +2363,51 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
             retries++;
         }
 
-        // 发送到边栏 webview
-        if (this._view) {
-            console.log('[Panel] Sending message to webview');
-            this._view.webview.postMessage(msgData);
-        } else {
-            console.error('[Panel] ERROR: Webview still not available after retries');
-        }
+        return new Promise((resolve, reject) => {
+            const question: PendingQuestion = {
+                requestId: id,
+                msgId,
+                message,
+                options,
+                createdAt: Date.now(),
+                ...extra,
+                repeatCount,
+                merged,
+                resolve: value => {
+                    resolve(value);
+                    question.merged?.forEach(q => q.resolve(value));
+                },
+                reject
+            };
+            this._pendingQuestions.set(id, question);
+            this._scheduleSessionSave();
 
-        return new Promise((resolve) => {
-            this._pendingResolve = resolve;
+            // 发送到边栏 webview
+            if (this._view) {
+                console.log(`[Panel] Sending message to webview, pending questions: ${this._pendingQuestions.size}`);
+                this._syncStateToAllWebviews(id, replacedRequestId);
+            } else {
+                console.error('[Panel] ERROR: Webview still not available after retries');
+            }
             console.log('[Panel] Waiting for user response...');
         });
     }
 
+    // 追加一条状态消息，不等待回复
+    public notify(message: string, level: NotifyLevel = 'info', source?: MessageSource) {
+        console.log(`[Panel] notify called, level: ${level}, message length: ${message.length}`);
+        this._chatHistory.push({
+            id: generateId(),
+            role: 'ai',
+            content: message,
+            timestamp: Date.now(),
+            level,
+            source
+        });
+        this._scheduleSessionSave();
+        this._syncStateToAllWebviews();
+    }
+
     public submitFeedback() {
         if (this._view) {
             this._view.webview.postMessage({ type: 'triggerSubmit' });
@@ -1539,6 +2516,33 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
             color: var(--vscode-button-foreground);
             border-bottom-right-radius: 4px;
         }
+        .chat-bubble.status-line {
+            display: flex;
+            align-items: baseline;
+            gap: 6px;
+            padding: 4px 10px;
+            border-radius: 4px;
+            border-left: 3px solid var(--status-color);
+            background: transparent;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .chat-bubble.status-line.level-info { --status-color: var(--vscode-focusBorder); }
+        .chat-bubble.status-line.level-success { --status-color: var(--vscode-testing-iconPassed); }
+        .chat-bubble.status-line.level-warning { --status-color: var(--vscode-editorWarning-foreground); }
+        .chat-bubble.status-line.level-error { --status-color: var(--vscode-errorForeground); }
+        .chat-bubble.status-line .message {
+            flex: 1;
+            min-width: 0;
+            color: var(--vscode-foreground);
+        }
+        .chat-bubble.status-line .message p {
+            margin: 0;
+        }
+        .chat-bubble.status-line .timestamp {
+            margin-top: 0;
+            flex-shrink: 0;
+        }
         .chat-bubble .timestamp {
             font-size: 10px;
             opacity: 0.6;
@@ -1741,12 +2745,137 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
             color: var(--vscode-testing-iconPassed);
             border-color: var(--vscode-testing-iconPassed);
         }
+        .cancelled-banner {
+            display: none;
+            align-items: center;
+            justify-content: space-between;
+            gap: 8px;
+            margin-bottom: 8px;
+            padding: 6px 10px;
+            background: var(--vscode-inputValidation-warningBackground);
+            border: 1px solid var(--vscode-inputValidation-warningBorder);
+            border-radius: 4px;
+            font-size: 12px;
+        }
+        .current-question.cancelled .cancelled-banner {
+            display: flex;
+        }
+        .current-question.cancelled .message {
+            opacity: 0.6;
+        }
+        .cancelled-banner button {
+            padding: 2px 8px;
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            border-radius: 3px;
+            cursor: pointer;
+            font-size: 11px;
+        }
+        .loop-banner {
+            display: none;
+            align-items: center;
+            justify-content: space-between;
+            gap: 8px;
+            margin-bottom: 8px;
+            padding: 6px 10px;
+            background: var(--vscode-inputValidation-warningBackground);
+            border: 1px solid var(--vscode-inputValidation-warningBorder);
+            border-radius: 4px;
+            font-size: 12px;
+        }
+        .current-question.loop-detected .loop-banner {
+            display: flex;
+        }
+        .loop-banner button {
+            flex-shrink: 0;
+            padding: 2px 8px;
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            border-radius: 3px;
+            cursor: pointer;
+            font-size: 11px;
+        }
+        .repeat-badge {
+            display: inline-block;
+            margin-left: 6px;
+            font-size: 10px;
+            font-weight: normal;
+            color: var(--vscode-editorWarning-foreground);
+            vertical-align: middle;
+        }
+        .source-badge {
+            display: inline-block;
+            margin-left: 6px;
+            padding: 0 6px;
+            border-radius: 8px;
+            font-size: 10px;
+            font-weight: normal;
+            line-height: 16px;
+            max-width: 180px;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+            vertical-align: middle;
+            color: var(--vscode-badge-foreground);
+            background: var(--vscode-badge-background);
+        }
+        .cancelled-label {
+            color: var(--vscode-descriptionForeground);
+            font-size: 11px;
+            margin-left: 6px;
+        }
         .current-question .star-btn {
             position: absolute;
             top: 8px;
             right: 8px;
             bottom: auto;
         }
+        .question-tabs {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 4px;
+            margin-bottom: 8px;
+        }
+        .question-tab {
+            display: inline-flex;
+            align-items: center;
+            gap: 6px;
+            max-width: 160px;
+            padding: 4px 10px;
+            background: transparent;
+            color: var(--vscode-foreground);
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 12px;
+            cursor: pointer;
+            font-size: 11px;
+            transition: all 0.15s;
+        }
+        .question-tab:hover {
+            border-color: var(--vscode-focusBorder);
+        }
+        .question-tab.active {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border-color: var(--vscode-button-background);
+        }
+        .question-tab.has-new {
+            border-color: #2196F3;
+        }
+        .question-tab.cancelled {
+            opacity: 0.6;
+            text-decoration: line-through;
+        }
+        .question-tab .tab-index {
+            font-weight: 600;
+            flex-shrink: 0;
+        }
+        .question-tab .tab-text {
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
         .rules-modal {
             display: none;
             position: fixed;
@@ -1836,25 +2965,144 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
             border: 1px solid var(--vscode-widget-border);
             border-radius: 6px;
         }
-        .options-title {
-            font-size: 11px;
-            color: var(--vscode-descriptionForeground);
-            margin-bottom: 4px;
+        .options-title {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 4px;
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+        }
+        .submit-options-btn {
+            padding: 4px 10px;
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+            font-size: 11px;
+        }
+        .submit-options-btn:hover {
+            background: var(--vscode-button-hoverBackground);
+        }
+        .form-container {
+            display: none;
+            flex-direction: column;
+            gap: 10px;
+            margin-bottom: 12px;
+            padding: 10px;
+            background: var(--vscode-editor-background);
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 6px;
+        }
+        .form-field {
+            display: flex;
+            flex-direction: column;
+            gap: 4px;
+            font-size: 12px;
+        }
+        .form-field .form-label .required {
+            color: var(--vscode-errorForeground);
+            margin-left: 2px;
+        }
+        .form-field .form-desc {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .form-field input[type="text"],
+        .form-field input[type="number"],
+        .form-field select {
+            padding: 4px 6px;
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, var(--vscode-widget-border));
+            border-radius: 3px;
+            font-family: inherit;
+            font-size: 12px;
+        }
+        .form-field.invalid input,
+        .form-field.invalid select {
+            border-color: var(--vscode-inputValidation-errorBorder);
+        }
+        .form-field .form-checkbox {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            cursor: pointer;
+        }
+        .form-field .form-error {
+            display: none;
+            font-size: 11px;
+            color: var(--vscode-errorForeground);
+        }
+        .form-field.invalid .form-error {
+            display: block;
+        }
+        .form-actions {
+            display: flex;
+            justify-content: flex-end;
+            gap: 6px;
+        }
+        .form-actions .form-skip-btn {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+        .confirm-container {
+            display: none;
+            flex-direction: column;
+            gap: 8px;
+            margin-bottom: 12px;
+            padding: 10px;
+            background: var(--vscode-editor-background);
+            border: 1px solid var(--vscode-widget-border);
+            border-left: 3px solid var(--risk-color);
+            border-radius: 6px;
+            font-size: 12px;
+        }
+        .confirm-container.risk-low { --risk-color: var(--vscode-testing-iconPassed); }
+        .confirm-container.risk-medium { --risk-color: var(--vscode-editorWarning-foreground); }
+        .confirm-container.risk-high { --risk-color: var(--vscode-errorForeground); }
+        .confirm-container .risk-badge {
+            align-self: flex-start;
+            padding: 1px 8px;
+            border: 1px solid var(--risk-color);
+            border-radius: 10px;
+            color: var(--risk-color);
+            font-size: 11px;
+            font-weight: 600;
+        }
+        .confirm-container .confirm-command {
+            width: 100%;
+            box-sizing: border-box;
+            padding: 6px 8px;
+            background: var(--vscode-textCodeBlock-background);
+            color: var(--vscode-editor-foreground);
+            border: 1px solid var(--risk-color);
+            border-radius: 4px;
+            font-family: var(--vscode-editor-font-family);
+            font-size: 12px;
+            resize: vertical;
+        }
+        .confirm-container .confirm-reason {
+            padding: 4px 6px;
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, var(--vscode-widget-border));
+            border-radius: 3px;
+            font-family: inherit;
+            font-size: 12px;
+        }
+        .confirm-container .confirm-actions {
             display: flex;
-            justify-content: space-between;
-            align-items: center;
+            justify-content: flex-end;
+            gap: 6px;
         }
-        .submit-options-btn {
-            padding: 4px 10px;
-            background: var(--vscode-button-background);
-            color: var(--vscode-button-foreground);
-            border: none;
-            border-radius: 4px;
-            cursor: pointer;
-            font-size: 11px;
+        .confirm-container .confirm-reject-btn {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
         }
-        .submit-options-btn:hover {
-            background: var(--vscode-button-hoverBackground);
+        .confirm-container.risk-high .confirm-approve-btn {
+            background: var(--vscode-errorForeground);
         }
         .option-btn {
             display: flex;
@@ -2470,6 +3718,82 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
             }
         }
         
+        /* 搜索面板 */
+        .search-panel {
+            position: fixed;
+            top: 40px;
+            left: 8px;
+            right: 8px;
+            max-height: 70vh;
+            display: flex;
+            flex-direction: column;
+            background: var(--vscode-menu-background);
+            border: 1px solid var(--vscode-menu-border);
+            border-radius: 6px;
+            box-shadow: 0 4px 12px rgba(0,0,0,0.2);
+            z-index: 200;
+        }
+        .search-panel.hidden {
+            display: none;
+        }
+        .search-inputs {
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+            padding: 8px;
+            border-bottom: 1px solid var(--vscode-widget-border);
+        }
+        .search-inputs input,
+        .search-inputs select {
+            padding: 4px 6px;
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
+            border-radius: 3px;
+            font-size: 12px;
+        }
+        .search-filters {
+            display: flex;
+            gap: 6px;
+        }
+        .search-filters select {
+            flex: 1;
+            min-width: 0;
+        }
+        .search-results {
+            overflow-y: auto;
+        }
+        .search-empty {
+            padding: 12px;
+            text-align: center;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .search-result {
+            padding: 6px 10px;
+            cursor: pointer;
+            border-bottom: 1px solid var(--vscode-widget-border);
+        }
+        .search-result:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        .search-result-meta {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 2px;
+        }
+        .search-result-snippet {
+            font-size: 12px;
+            word-break: break-word;
+        }
+        .search-result mark {
+            background: var(--vscode-editor-findMatchHighlightBackground);
+            color: inherit;
+        }
+        .chat-bubble.search-hit {
+            animation: flashHighlight 2s ease-out;
+        }
+        
         /* 导出菜单样式 */
         .export-menu {
             position: fixed;
@@ -2794,6 +4118,12 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
 <body>
     <!-- 顶部工具栏 -->
     <div class="top-toolbar">
+        <button class="toolbar-btn" id="searchBtn" title="搜索消息">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+                <circle cx="11" cy="11" r="8"></circle>
+                <line x1="21" y1="21" x2="16.65" y2="16.65"></line>
+            </svg>
+        </button>
         <button class="toolbar-btn" id="exportBtn" title="导出对话">
             <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
                 <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
@@ -2801,6 +4131,12 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
                 <line x1="12" y1="15" x2="12" y2="3"></line>
             </svg>
         </button>
+        <button class="toolbar-btn" id="sessionsBtn" title="历史会话">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+                <circle cx="12" cy="12" r="10"></circle>
+                <polyline points="12 6 12 12 16 14"></polyline>
+            </svg>
+        </button>
         <button class="toolbar-btn" id="starredBtn" title="查看收藏">
             <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
                 <polygon points="12 2 15.09 8.26 22 9.27 17 14.14 18.18 21.02 12 17.77 5.82 21.02 7 14.14 2 9.27 8.91 8.26 12 2"></polygon>
@@ -2871,10 +4207,35 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
         </div>
     </div>
 
+    <!-- 搜索：当前对话、历史会话和收藏 -->
+    <div id="searchPanel" class="search-panel hidden">
+        <div class="search-inputs">
+            <input type="text" id="searchInput" placeholder="搜索消息（多个关键词用空格分隔）">
+            <div class="search-filters">
+                <select id="searchRole" title="角色">
+                    <option value="">全部角色</option>
+                    <option value="ai">🤖 AI</option>
+                    <option value="user">👤 用户</option>
+                </select>
+                <select id="searchDate" title="时间">
+                    <option value="">全部时间</option>
+                    <option value="today">今天</option>
+                    <option value="7">最近 7 天</option>
+                    <option value="30">最近 30 天</option>
+                </select>
+                <select id="searchClient" title="AI 客户端">
+                    <option value="">全部客户端</option>
+                </select>
+            </div>
+        </div>
+        <div id="searchResults" class="search-results"></div>
+    </div>
+
     <!-- 导出菜单 -->
     <div id="exportMenu" class="export-menu hidden">
         <div class="export-menu-item" data-format="md">📄 导出为 Markdown</div>
         <div class="export-menu-item" data-format="json">📋 导出为 JSON</div>
+        <div class="export-menu-item" data-format="html">🌐 导出为 HTML</div>
     </div>
 
     <div id="emptyState" class="empty-state">
@@ -2889,11 +4250,22 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
         <!-- 历史对话区域 -->
         <div id="chatHistory" class="chat-container"></div>
         
+        <!-- 多个等待回复的问题，可按任意顺序回答 -->
+        <div id="questionTabs" class="question-tabs" style="display: none;"></div>
+
         <!-- 当前问题区域 -->
         <div id="currentQuestion" class="current-question">
             <button id="currentStarBtn" class="star-btn" title="收藏">☆</button>
             <button id="copyBtn" class="copy-btn" title="Copy">📋</button>
-            <div class="label">🤖 AI</div>
+            <div class="label">🤖 AI<span id="currentSource"></span><span id="currentRepeat"></span></div>
+            <div class="cancelled-banner">
+                <span id="cancelledText">🚫 AI 已取消此问题</span>
+                <button id="dismissQuestionBtn">关闭</button>
+            </div>
+            <div class="loop-banner">
+                <span id="loopText">🔁 AI 在反复询问同一个问题</span>
+                <button id="stopAskingBtn" title="回复 AI 不要再问，按它自己的判断继续">让 AI 自行决定</button>
+            </div>
             <div id="messageContent" class="message"></div>
         </div>
         
@@ -2906,6 +4278,12 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
         
         <div id="optionsContainer" class="options-container"></div>
         
+        <!-- panel_form 表单 -->
+        <div id="formContainer" class="form-container"></div>
+        
+        <!-- panel_confirm 确认 -->
+        <div id="confirmContainer" class="confirm-container"></div>
+        
         <div id="dropZone">
             📎 拖拽图片或文件/文件夹到这里
         </div>
@@ -2968,12 +4346,15 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
         const feedbackArea = document.getElementById('feedbackArea');
         const messageContent = document.getElementById('messageContent');
         const optionsContainer = document.getElementById('optionsContainer');
+        const formContainer = document.getElementById('formContainer');
+        const confirmContainer = document.getElementById('confirmContainer');
         const feedbackInput = document.getElementById('feedbackInput');
         const imagePreview = document.getElementById('imagePreview');
         const submitBtn = document.getElementById('submitBtn');
                         const dropZone = document.getElementById('dropZone');
         const chatHistory = document.getElementById('chatHistory');
         const currentQuestion = document.getElementById('currentQuestion');
+        const questionTabs = document.getElementById('questionTabs');
         const fixedActions = document.getElementById('fixedActions');
         const settingsModal = document.getElementById('settingsModal');
         const closeSettings = document.getElementById('closeSettings');
@@ -2986,6 +4367,9 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
 
         let images = [];
         let historyData = [];
+        let pendingQuestions = [];  // 所有等待回复的问题
+        let activeRequestId = null;  // 当前正在回答的问题
+        const drafts = {};  // 切换问题时保存未发送的输入 { text, images }
         let currentRules = [];
         let workspaceName = '';
         
@@ -3393,14 +4777,16 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
             if (btn) {
                 const action = btn.dataset.action;
                 const text = fixedActionTexts[action] || action;
-                // 和选项点击保持一致：添加到历史并显示等待状态
+                // 和选项点击保持一致：添加到历史并进入下一个问题
+                if (!activeRequestId) return;
                 addUserReplyToHistory(text, []);
                 vscode.postMessage({ 
                     type: 'fixedAction', 
+                    requestId: activeRequestId,
                     action: action,
                     text: text
                 });
-                showWaitingState();
+                completeActiveQuestion();
             }
         });
         
@@ -3539,12 +4925,13 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
             return date.toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' });
         }
 
+        const STATUS_ICONS = { info: 'ℹ️', success: '✅', warning: '⚠️', error: '❌' };
+        
         // 渲染历史对话
-        // showAll: true 时显示全部历史（等待状态用）
-        function renderHistory(history, showAll = false) {
-            // 正常情况：最后一条是当前 AI 问题，不在历史里显示
-            // 等待状态：显示全部（包括刚提交的用户回复）
-            const historyToShow = showAll ? history : history.slice(0, -1);
+        function renderHistory(history) {
+            // 等待回复的问题显示在问题卡片中，不在历史里重复显示
+            const pendingMsgIds = new Set(pendingQuestions.map(q => q.msgId));
+            const historyToShow = history.filter(msg => !pendingMsgIds.has(msg.id));
             
             chatHistory.innerHTML = '';
             
@@ -3559,14 +4946,26 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
                 const msg = historyToShow[i];
                 const bubble = document.createElement('div');
                 bubble.className = 'chat-bubble ' + msg.role;
+                bubble.dataset.msgId = msg.id;
+                
+                // panel_notify 的状态消息显示为紧凑的一行
+                if (msg.level) {
+                    bubble.className = 'chat-bubble status-line level-' + msg.level;
+                    bubble.innerHTML = '<span class="status-icon">' + STATUS_ICONS[msg.level] + '</span>' +
+                        '<div class="message">' + renderMarkdown(msg.content) + '</div>' +
+                        sourceBadge(msg.source) +
+                        '<span class="timestamp">' + formatTime(msg.timestamp) + '</span>';
+                    chatHistory.appendChild(bubble);
+                    continue;
+                }
                 
                 let content = '';
                 if (msg.role === 'ai') {
                     // 检查是否已收藏
                     const isStarred = starredMessages.some(s => s.id === msg.id);
-                    content = '<button class="star-btn' + (isStarred ? ' starred' : '') + '" data-id="' + msg.id + '" title="收藏">' + (isStarred ? '★' : '☆') + '</button>';
+                    content = '<button class="star-btn' + (isStarred ? ' starred' : '') + '" data-id="' + escapeAttr(msg.id) + '" title="收藏">' + (isStarred ? '★' : '☆') + '</button>';
                     content += '<button class="bubble-copy-btn" title="复制">📋</button>';
-                    content += '<div class="label">🤖 AI</div>';
+                    content += '<div class="label">🤖 AI' + sourceBadge(msg.source) + repeatBadge(msg.repeatCount) + (msg.cancelled ? '<span class="cancelled-label">' + (msg.cancelKind === 'disconnected' ? '🔌 已断开' : '🚫 已取消') + '</span>' : '') + '</div>';
                     content += '<div class="message">' + renderMarkdown(msg.content) + '</div>';
                 } else {
                     content = '<div>' + (msg.content || '<em>(empty)</em>') + '</div>';
@@ -3627,12 +5026,132 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
             }, 50);
         }
 
-        // 显示消息
-        function showMessage(message, options, history) {
+        // 显示等待回复的问题（可能有多个）
+        function showMessage(questions, focusRequestId, history, replacedRequestId) {
             emptyState.classList.add('hidden');
             feedbackArea.classList.remove('hidden');
             feedbackArea.style.display = 'flex';  // 确保显示为 flex
             
+            // 重复的问题取代了旧问题：草稿和焦点转到新问题上
+            const replacedActive = !!replacedRequestId && replacedRequestId === activeRequestId;
+            if (replacedActive) {
+                saveDraft();
+                activeRequestId = focusRequestId;
+            }
+            if (replacedRequestId && drafts[replacedRequestId]) {
+                drafts[focusRequestId] = drafts[replacedRequestId];
+                delete drafts[replacedRequestId];
+            }
+            
+            const previousActive = pendingQuestions.find(q => q.requestId === activeRequestId);
+            pendingQuestions = questions || [];
+            if (history) {
+                historyData = history;
+            }
+            
+            if (pendingQuestions.length === 0) {
+                activeRequestId = null;
+                renderQuestionTabs();
+                renderHistory(historyData);
+                showWaitingState();
+                return;
+            }
+            
+            // 正在回答的问题仍然有效时不打断用户，新问题只在标签上提示
+            const currentActive = pendingQuestions.find(q => q.requestId === activeRequestId);
+            const stillActive = !!currentActive;
+            if (!stillActive) {
+                const focused = pendingQuestions.find(q => q.requestId === focusRequestId);
+                activeRequestId = (focused || pendingQuestions[0]).requestId;
+                renderActiveQuestion();
+            } else if (currentActive.cancelled && !(previousActive && previousActive.cancelled)) {
+                // 正在回答的问题被 AI 取消，保留草稿并切换为已取消状态
+                saveDraft();
+                renderActiveQuestion();
+            } else if (replacedActive) {
+                renderActiveQuestion();
+            }
+            
+            renderHistory(historyData);
+            renderQuestionTabs(stillActive && !replacedActive ? focusRequestId : null);
+        }
+        
+        // 渲染问题标签（只有多个问题时显示）
+        function renderQuestionTabs(newRequestId) {
+            if (pendingQuestions.length <= 1) {
+                questionTabs.style.display = 'none';
+                questionTabs.innerHTML = '';
+                return;
+            }
+            
+            const highlighted = new Set(
+                Array.from(questionTabs.querySelectorAll('.question-tab.has-new')).map(t => t.dataset.requestId)
+            );
+            if (newRequestId) {
+                highlighted.add(newRequestId);
+            }
+            
+            questionTabs.style.display = 'flex';
+            questionTabs.innerHTML = pendingQuestions.map((q, idx) => {
+                const isActive = q.requestId === activeRequestId;
+                const isNew = !isActive && highlighted.has(q.requestId);
+                const preview = q.message.replace(/\\s+/g, ' ').substring(0, 40);
+                return \`<button class="question-tab\${isActive ? ' active' : ''}\${isNew ? ' has-new' : ''}\${q.cancelled ? ' cancelled' : ''}" data-request-id="\${escapeAttr(q.requestId)}" title="\${escapeAttr(preview)}">
+                    <span class="tab-index">\${q.cancelled ? (q.cancelKind === 'disconnected' ? '🔌' : '🚫') : '#' + (idx + 1)}</span>
+                    <span class="tab-text">\${escapeHtml(preview)}</span>
+                </button>\`;
+            }).join('');
+        }
+        
+        questionTabs.addEventListener('click', (e) => {
+            const tab = e.target.closest('.question-tab');
+            if (tab && tab.dataset.requestId !== activeRequestId) {
+                switchQuestion(tab.dataset.requestId);
+            }
+        });
+        
+        // 切换到另一个问题，保留当前问题的草稿
+        function switchQuestion(requestId) {
+            if (activeRequestId) {
+                saveDraft();
+            }
+            activeRequestId = requestId;
+            renderActiveQuestion();
+            renderQuestionTabs();
+        }
+        
+        function saveDraft() {
+            drafts[activeRequestId] = {
+                text: feedbackInput.value,
+                images: [...images],
+                form: formContainer.querySelector('.form-field') ? collectFormValues() : undefined,
+                confirm: confirmContainer.querySelector('.confirm-command, .confirm-reason') ? collectConfirmInput() : undefined
+            };
+        }
+        
+        // 当前问题已回答：切到下一个问题，没有则进入等待状态
+        function completeActiveQuestion() {
+            delete drafts[activeRequestId];
+            pendingQuestions = pendingQuestions.filter(q => q.requestId !== activeRequestId);
+            activeRequestId = null;
+            
+            if (pendingQuestions.length > 0) {
+                activeRequestId = pendingQuestions[0].requestId;
+                renderActiveQuestion();
+                renderQuestionTabs();
+                renderHistory(historyData);
+            } else {
+                renderQuestionTabs();
+                renderHistory(historyData);
+                showWaitingState();
+            }
+        }
+        
+        // 渲染当前正在回答的问题
+        function renderActiveQuestion() {
+            const question = pendingQuestions.find(q => q.requestId === activeRequestId);
+            if (!question) return;
+            
             // 隐藏等待提示
             const waitingDiv = document.getElementById('waitingHint');
             if (waitingDiv) waitingDiv.style.display = 'none';
@@ -3640,21 +5159,70 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
             // 显示当前问题和输入区
             currentQuestion.style.display = 'block';
             document.querySelector('.input-area').style.display = 'flex';
-            enableInputArea();  // 启用输入区
-            fixedActions.style.display = 'flex';  // 显示固定操作
             
-            // 渲染历史
-            if (history && history.length > 0) {
-                historyData = history;
-                renderHistory(history);
-                // 更新当前问题的收藏按钮状态（最后一条是当前消息）
-                const currentMsg = history[history.length - 1];
-                if (currentMsg && currentMsg.role === 'ai') {
-                    updateCurrentStarBtn(currentMsg.id);
-                }
+            // 更新当前问题的收藏按钮状态
+            updateCurrentStarBtn(question.msgId);
+            
+            messageContent.innerHTML = renderMarkdown(question.message);
+            document.getElementById('currentSource').innerHTML = sourceBadge(question.source);
+            document.getElementById('currentRepeat').innerHTML = repeatBadge(question.repeatCount);
+            // 重复次数达到 feedbackPanel.loopThreshold 时提供一键回复
+            currentQuestion.classList.toggle('loop-detected', !!question.loopDetected && !question.cancelled);
+            if (question.loopDetected) {
+                document.getElementById('loopText').textContent = '🔁 AI 已经第 ' + question.repeatCount + ' 次问同一个问题';
             }
+            formContainer.innerHTML = '';
+            formContainer.style.display = 'none';
+            confirmContainer.innerHTML = '';
+            confirmContainer.style.display = 'none';
             
-            messageContent.innerHTML = renderMarkdown(message);
+            // 已取消的问题只读显示，不能再回答
+            currentQuestion.classList.toggle('cancelled', !!question.cancelled);
+            if (question.cancelled) {
+                // 被 MCPServer 清理的问题：已经没有 AI 在等待回复
+                const disconnected = question.cancelKind === 'disconnected';
+                document.getElementById('cancelledText').textContent = disconnected
+                    ? '🔌 AI 已断开连接，此问题不再等待回复'
+                    : '🚫 AI 已取消此问题' + (question.cancelReason ? '（' + question.cancelReason + '）' : '');
+                document.querySelector('.input-area').classList.add('disabled');
+                feedbackInput.placeholder = disconnected ? 'AI 已断开连接' : 'AI 已取消此问题';
+                fixedActions.style.display = 'none';
+                optionsContainer.innerHTML = '';
+                optionsContainer.style.display = 'none';
+                return;
+            }
+            
+            // 表单问题：用表单代替文本输入
+            if (question.form) {
+                const draft = drafts[activeRequestId];
+                document.querySelector('.input-area').classList.add('disabled');
+                feedbackInput.placeholder = '请填写上方表单';
+                fixedActions.style.display = 'none';
+                optionsContainer.innerHTML = '';
+                optionsContainer.style.display = 'none';
+                renderForm(question.form, draft && draft.form);
+                showNewMessageHighlight();
+                scrollToBottom();
+                return;
+            }
+            
+            // 确认问题：显示风险等级和可编辑的命令
+            if (question.confirm) {
+                const draft = drafts[activeRequestId];
+                messageContent.innerHTML = renderMarkdown(question.confirm.action);
+                document.querySelector('.input-area').classList.add('disabled');
+                feedbackInput.placeholder = '请在上方批准或拒绝';
+                fixedActions.style.display = 'none';
+                optionsContainer.innerHTML = '';
+                optionsContainer.style.display = 'none';
+                renderConfirm(question.confirm, draft && draft.confirm);
+                showNewMessageHighlight();
+                scrollToBottom();
+                return;
+            }
+            
+            enableInputArea();  // 启用输入区
+            fixedActions.style.display = 'flex';  // 显示固定操作
             
             // 显示1秒闪烁效果
             showNewMessageHighlight();
@@ -3663,6 +5231,7 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
             scrollToBottom();
             
             // 渲染选项按钮（支持多选）
+            const options = question.options;
             optionsContainer.innerHTML = '';
             let selectedOptions = [];
             
@@ -3692,7 +5261,7 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
                             submitOptionsBtn.style.display = selectedOptions.length > 0 ? 'inline-block' : 'none';
                         } else {
                             // 单选模式，直接提交
-                            selectOption(opt);
+                            selectOption([opt]);
                         }
                     };
                     optionsContainer.appendChild(btn);
@@ -3700,7 +5269,7 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
                 
                 submitOptionsBtn.onclick = () => {
                     if (selectedOptions.length > 0) {
-                        selectOption(selectedOptions.join(', '));
+                        selectOption(selectedOptions);
                         selectedOptions = [];
                     }
                 };
@@ -3710,21 +5279,210 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
                 optionsContainer.style.display = 'none';
             }
             
-            feedbackInput.value = '';
-            images = [];
+            // 恢复该问题的草稿
+            const draft = drafts[activeRequestId];
+            feedbackInput.value = draft ? draft.text : '';
+            images = draft ? [...draft.images] : [];
             updateImagePreview();
         }
 
+        // 已取消的问题、表单和确认问题不能用文本回复
+        function isTextReplyDisabled() {
+            const question = pendingQuestions.find(q => q.requestId === activeRequestId);
+            return !!(question && (question.cancelled || question.form || question.confirm));
+        }
+        
+        function escapeAttr(text) {
+            return escapeHtml(String(text)).replace(/"/g, '&quot;');
+        }
+        
+        // AI 客户端和对话的徽标，如 "Cursor · refactor-auth"，悬停显示版本和对话 id
+        function sourceBadge(source) {
+            if (!source) return '';
+            const label = [source.client, source.conversationTitle || source.conversationId].filter(Boolean).join(' · ');
+            if (!label) return '';
+            const title = [
+                source.client ? '客户端: ' + source.client + (source.clientVersion ? ' ' + source.clientVersion : '') : '',
+                source.conversationTitle ? '对话: ' + source.conversationTitle : '',
+                source.conversationId ? '对话 ID: ' + source.conversationId : ''
+            ].filter(Boolean).join('\\n');
+            return '<span class="source-badge" title="' + escapeAttr(title) + '">' + escapeHtml(label) + '</span>';
+        }
+        
+        // 重复提问合并后的次数，如 "🔁 ×3"
+        function repeatBadge(count) {
+            if (!count || count < 2) return '';
+            return '<span class="repeat-badge" title="短时间内问了 ' + count + ' 次几乎相同的问题">🔁 ×' + count + '</span>';
+        }
+        
+        // 根据 schema 渲染表单，values 为草稿值（没有时使用 default）
+        function renderForm(form, values) {
+            const required = form.required || [];
+            const fieldsHtml = Object.keys(form.properties).map(name => {
+                const field = form.properties[name];
+                const value = values && values[name] !== undefined ? values[name] : field.default;
+                const title = escapeHtml(field.title || name);
+                const requiredMark = required.includes(name) ? '<span class="required">*</span>' : '';
+                const desc = field.description ? '<div class="form-desc">' + escapeHtml(field.description) + '</div>' : '';
+                const error = '<div class="form-error"></div>';
+                
+                if (field.type === 'boolean') {
+                    return '<div class="form-field" data-name="' + escapeAttr(name) + '" data-type="boolean">' +
+                        '<label class="form-checkbox"><input type="checkbox"' + (value === true || value === 'true' ? ' checked' : '') + '>' + title + '</label>' +
+                        desc + error + '</div>';
+                }
+                
+                let control;
+                if (field.enum) {
+                    const names = field.enumNames || [];
+                    control = '<select>' +
+                        (required.includes(name) && value !== undefined ? '' : '<option value="">-- 请选择 --</option>') +
+                        field.enum.map((opt, idx) => '<option value="' + escapeAttr(opt) + '"' + (String(opt) === String(value) ? ' selected' : '') + '>' +
+                            escapeHtml(String(names[idx] || opt)) + '</option>').join('') +
+                        '</select>';
+                } else if (field.type === 'number' || field.type === 'integer') {
+                    control = '<input type="number"' +
+                        (field.type === 'integer' ? ' step="1"' : ' step="any"') +
+                        (field.minimum !== undefined ? ' min="' + escapeAttr(field.minimum) + '"' : '') +
+                        (field.maximum !== undefined ? ' max="' + escapeAttr(field.maximum) + '"' : '') +
+                        ' value="' + (value !== undefined ? escapeAttr(value) : '') + '">';
+                } else {
+                    control = '<input type="text"' +
+                        (field.maxLength !== undefined ? ' maxlength="' + escapeAttr(field.maxLength) + '"' : '') +
+                        ' value="' + (value !== undefined ? escapeAttr(value) : '') + '">';
+                }
+                return '<div class="form-field" data-name="' + escapeAttr(name) + '" data-type="' + field.type + '">' +
+                    '<label class="form-label">' + title + requiredMark + '</label>' +
+                    desc + control + error + '</div>';
+            }).join('');
+            
+            formContainer.innerHTML = fieldsHtml +
+                '<div class="form-actions">' +
+                '<button class="submit-options-btn form-skip-btn" id="formSkipBtn">跳过</button>' +
+                '<button class="submit-options-btn" id="formSubmitBtn">提交</button>' +
+                '</div>';
+            formContainer.style.display = 'flex';
+            
+            const firstInput = formContainer.querySelector('input, select');
+            if (firstInput) {
+                setTimeout(() => firstInput.focus(), 60);
+            }
+        }
+        
+        function collectFormValues() {
+            const values = {};
+            formContainer.querySelectorAll('.form-field').forEach(el => {
+                const control = el.querySelector('input, select');
+                values[el.dataset.name] = el.dataset.type === 'boolean' ? control.checked : control.value;
+            });
+            return values;
+        }
+        
+        function submitForm() {
+            if (!activeRequestId) return;
+            formContainer.querySelectorAll('.form-field.invalid').forEach(el => el.classList.remove('invalid'));
+            vscode.postMessage({ type: 'submitForm', requestId: activeRequestId, values: collectFormValues() });
+        }
+        
+        // 扩展端校验失败时在对应字段下显示错误
+        function showFormErrors(requestId, errors) {
+            if (requestId !== activeRequestId) return;
+            formContainer.querySelectorAll('.form-field').forEach(el => {
+                const message = errors[el.dataset.name];
+                el.classList.toggle('invalid', !!message);
+                el.querySelector('.form-error').textContent = message || '';
+            });
+        }
+        
+        formContainer.addEventListener('click', (e) => {
+            if (e.target.id === 'formSubmitBtn') {
+                submitForm();
+            } else if (e.target.id === 'formSkipBtn' && activeRequestId) {
+                addUserReplyToHistory('[用户跳过了表单]', []);
+                vscode.postMessage({ type: 'submit', requestId: activeRequestId, value: '[用户跳过了表单]', images: [] });
+                completeActiveQuestion();
+            }
+        });
+        
+        const RISK_LABELS = { low: '低风险', medium: '中风险', high: '高风险' };
+        
+        // 渲染确认卡片，input 为草稿（编辑过的命令和理由）
+        function renderConfirm(confirm, input) {
+            const command = input && input.command !== undefined ? input.command : confirm.command;
+            let html = '<span class="risk-badge">⚠️ ' + RISK_LABELS[confirm.risk] + '</span>';
+            if (confirm.command !== undefined) {
+                html += '<textarea class="confirm-command" rows="' + Math.min(8, command.split('\\n').length + 1) + '" spellcheck="false">' + escapeHtml(command) + '</textarea>';
+            }
+            html += '<input type="text" class="confirm-reason" placeholder="理由（可选）" value="' + escapeAttr(input && input.reason || '') + '">';
+            html += '<div class="confirm-actions">' +
+                '<button class="submit-options-btn confirm-reject-btn" id="confirmRejectBtn">拒绝</button>' +
+                '<button class="submit-options-btn confirm-approve-btn" id="confirmApproveBtn">批准</button>' +
+                '</div>';
+            
+            confirmContainer.className = 'confirm-container risk-' + confirm.risk;
+            confirmContainer.innerHTML = html;
+            confirmContainer.style.display = 'flex';
+        }
+        
+        function collectConfirmInput() {
+            const commandEl = confirmContainer.querySelector('.confirm-command');
+            const reasonEl = confirmContainer.querySelector('.confirm-reason');
+            return {
+                command: commandEl ? commandEl.value : undefined,
+                reason: reasonEl ? reasonEl.value : ''
+            };
+        }
+        
+        confirmContainer.addEventListener('click', (e) => {
+            const approved = e.target.id === 'confirmApproveBtn';
+            if (!approved && e.target.id !== 'confirmRejectBtn') return;
+            if (!activeRequestId) return;
+            const input = collectConfirmInput();
+            vscode.postMessage({
+                type: 'confirmDecision',
+                requestId: activeRequestId,
+                approved,
+                command: input.command,
+                reason: input.reason
+            });
+            // 历史记录由扩展端同步回来
+            delete drafts[activeRequestId];
+        });
+        
+        formContainer.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter' && e.target.tagName === 'INPUT' && e.target.type !== 'checkbox') {
+                e.preventDefault();
+                submitForm();
+            }
+        });
+        
+        // 关闭已取消的问题
+        document.getElementById('dismissQuestionBtn').addEventListener('click', () => {
+            if (!activeRequestId) return;
+            vscode.postMessage({ type: 'dismissQuestion', requestId: activeRequestId });
+            completeActiveQuestion();
+        });
+        
+        // 回复 AI 不要再重复询问（回复内容取自 feedbackPanel.loopStopReply）
+        document.getElementById('stopAskingBtn').addEventListener('click', () => {
+            if (!activeRequestId || isTextReplyDisabled()) return;
+            vscode.postMessage({ type: 'stopAsking', requestId: activeRequestId });
+            completeActiveQuestion();
+        });
+
         // 选择选项
-        function selectOption(value) {
+        function selectOption(options) {
+            if (!activeRequestId || isTextReplyDisabled()) return;
+            const value = options.join(', ');
             // 先添加用户回复到本地历史
             addUserReplyToHistory(value, []);
-            vscode.postMessage({ type: 'optionSelected', value });
-            showWaitingState();
+            vscode.postMessage({ type: 'optionSelected', requestId: activeRequestId, value, options });
+            completeActiveQuestion();
         }
 
         // 提交反馈
         function submit() {
+            if (!activeRequestId || isTextReplyDisabled()) return;
             const text = feedbackInput.value.trim();
             const currentImages = [...images];
             
@@ -3738,10 +5496,11 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
             
             vscode.postMessage({ 
                 type: 'submit', 
+                requestId: activeRequestId,
                 value: text,
                 images: currentImages 
             });
-            showWaitingState();
+            completeActiveQuestion();
         }
         
         // 生成唯一 ID
@@ -3758,8 +5517,7 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
                 timestamp: Date.now(),
                 images: imgs.length > 0 ? imgs : undefined
             });
-            // 等待状态时显示完整历史
-            renderHistory(historyData, true);
+            renderHistory(historyData);
         }
 
         // 显示等待状态（保留历史，输入区禁用但可见，结束按钮可用）
@@ -3772,6 +5530,10 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
             currentQuestion.style.display = 'none';
             optionsContainer.innerHTML = '';
             optionsContainer.style.display = 'none';
+            formContainer.innerHTML = '';
+            formContainer.style.display = 'none';
+            confirmContainer.innerHTML = '';
+            confirmContainer.style.display = 'none';
             fixedActions.style.display = 'none';  // 隐藏固定操作
             
             // 输入区保持显示但禁用（结束按钮除外）
@@ -3781,7 +5543,7 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
             feedbackInput.placeholder = '等待 AI 回复...';
             
             // 如果没有历史，则显示空状态
-            if (historyData.length <= 1) {
+            if (historyData.length === 0) {
                 emptyState.classList.remove('hidden');
                 feedbackArea.classList.add('hidden');
             } else {
@@ -4051,6 +5813,159 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
         document.addEventListener('click', () => {
             exportMenu.classList.add('hidden');
         });
+        
+        // ========== 历史会话 ==========
+        document.getElementById('sessionsBtn').onclick = () => {
+            vscode.postMessage({ type: 'openSessions' });
+        };
+        
+        // ========== 搜索 ==========
+        const searchPanel = document.getElementById('searchPanel');
+        const searchInput = document.getElementById('searchInput');
+        const searchRole = document.getElementById('searchRole');
+        const searchDate = document.getElementById('searchDate');
+        const searchClient = document.getElementById('searchClient');
+        const searchResults = document.getElementById('searchResults');
+        let searchTimer = null;
+        let lastSearchResults = [];
+        
+        document.getElementById('searchBtn').onclick = (e) => {
+            e.stopPropagation();
+            searchPanel.classList.toggle('hidden');
+            if (!searchPanel.classList.contains('hidden')) {
+                searchInput.focus();
+                searchInput.select();
+            }
+        };
+        searchPanel.onclick = (e) => e.stopPropagation();
+        document.addEventListener('click', () => {
+            searchPanel.classList.add('hidden');
+        });
+        searchPanel.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape') {
+                searchPanel.classList.add('hidden');
+            }
+        });
+        
+        // 输入停顿后再搜索，避免每个按键都发一次请求
+        function scheduleSearch() {
+            clearTimeout(searchTimer);
+            searchTimer = setTimeout(runSearch, 250);
+        }
+        searchInput.addEventListener('input', scheduleSearch);
+        [searchRole, searchDate, searchClient].forEach(select => select.addEventListener('change', runSearch));
+        
+        function runSearch() {
+            const query = searchInput.value.trim();
+            if (!query) {
+                lastSearchResults = [];
+                searchResults.innerHTML = '';
+                return;
+            }
+            let since;
+            if (searchDate.value === 'today') {
+                const today = new Date();
+                today.setHours(0, 0, 0, 0);
+                since = today.getTime();
+            } else if (searchDate.value) {
+                since = Date.now() - Number(searchDate.value) * 24 * 60 * 60 * 1000;
+            }
+            vscode.postMessage({
+                type: 'search',
+                query,
+                filters: {
+                    role: searchRole.value || undefined,
+                    since,
+                    client: searchClient.value || undefined
+                }
+            });
+        }
+        
+        function renderSearchResults(query, results, clients) {
+            // 查询已经变化的旧结果不再显示
+            if (query !== searchInput.value.trim()) return;
+            
+            const selectedClient = searchClient.value;
+            searchClient.innerHTML = '<option value="">全部客户端</option>' +
+                clients.map(c => '<option value="' + escapeAttr(c) + '">' + escapeHtml(c) + '</option>').join('');
+            searchClient.value = clients.includes(selectedClient) ? selectedClient : '';
+            
+            lastSearchResults = results;
+            if (results.length === 0) {
+                searchResults.innerHTML = '<div class="search-empty">没有找到匹配的消息</div>';
+                return;
+            }
+            const terms = query.toLowerCase().split(/\\s+/).filter(Boolean);
+            const scopeLabels = { current: '💬 当前对话', session: '🗂️ 历史会话', starred: '⭐ 收藏' };
+            searchResults.innerHTML = results.map((r, idx) => {
+                const starred = starredMessages.some(m => m.id === r.msgId);
+                const meta = [
+                    scopeLabels[r.scope] + (starred && r.scope !== 'starred' ? ' ⭐' : ''),
+                    r.role === 'ai' ? '🤖 AI' : '👤 用户',
+                    r.client || '',
+                    new Date(r.timestamp).toLocaleString()
+                ].filter(Boolean).join(' · ');
+                return '<div class="search-result" data-index="' + idx + '">' +
+                    '<div class="search-result-meta">' + escapeHtml(meta) + '</div>' +
+                    '<div class="search-result-snippet">' + highlightTerms(r.snippet, terms) + '</div>' +
+                '</div>';
+            }).join('');
+        }
+        
+        // 先在原文上标记命中的字符，再逐段转义，避免关键词匹配到 HTML 实体
+        function highlightTerms(text, terms) {
+            const lower = text.toLowerCase();
+            const marked = new Array(text.length).fill(false);
+            terms.forEach(term => {
+                for (let i = lower.indexOf(term); i !== -1; i = lower.indexOf(term, i + term.length)) {
+                    marked.fill(true, i, i + term.length);
+                }
+            });
+            let html = '';
+            let start = 0;
+            for (let i = 1; i <= text.length; i++) {
+                if (i === text.length || marked[i] !== marked[start]) {
+                    const part = escapeHtml(text.substring(start, i));
+                    html += marked[start] ? '<mark>' + part + '</mark>' : part;
+                    start = i;
+                }
+            }
+            return html;
+        }
+        
+        searchResults.addEventListener('click', (e) => {
+            const item = e.target.closest('.search-result');
+            if (!item) return;
+            const result = lastSearchResults[Number(item.dataset.index)];
+            if (!result) return;
+            
+            if (result.scope === 'session') {
+                vscode.postMessage({ type: 'openSearchResult', sessionId: result.sessionId, msgId: result.msgId });
+            } else if (result.scope === 'starred') {
+                vscode.postMessage({ type: 'openStarredInEditor', msgId: result.msgId });
+            } else {
+                searchPanel.classList.add('hidden');
+                scrollToMessage(result.msgId);
+            }
+        });
+        
+        // 定位到当前对话中的消息：等待回复的问题切换到对应标签，历史消息滚动过去并闪烁
+        function scrollToMessage(msgId) {
+            const question = pendingQuestions.find(q => q.msgId === msgId);
+            if (question) {
+                if (question.requestId !== activeRequestId) {
+                    switchQuestion(question.requestId);
+                }
+                currentQuestion.scrollIntoView({ block: 'center' });
+                return;
+            }
+            const bubble = chatHistory.querySelector('.chat-bubble[data-msg-id="' + msgId + '"]');
+            if (!bubble) return;
+            bubble.scrollIntoView({ block: 'center' });
+            bubble.classList.remove('search-hit');
+            void bubble.offsetWidth;  // 重新触发动画
+            bubble.classList.add('search-hit');
+        }
 
         // ========== 模板功能 ==========
         let templates = [];
@@ -4168,15 +6083,21 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
             const data = event.data;
             switch (data.type) {
                 case 'showMessage':
-                    showMessage(data.message, data.options, data.history);
+                    showMessage(data.questions, data.focusRequestId, data.history, data.replacedRequestId);
+                    break;
+                case 'formErrors':
+                    showFormErrors(data.requestId, data.errors || {});
                     break;
                 case 'triggerSubmit':
-                    submit();
+                    if (formContainer.querySelector('.form-field')) {
+                        submitForm();
+                    } else {
+                        submit();
+                    }
                     break;
                 case 'updateHistory':
                     historyData = data.history || [];
-                    // 更新历史时显示全部（包括最新用户回复）
-                    renderHistory(historyData, true);
+                    renderHistory(historyData);
                     break;
                 case 'openSettings':
                     renderRulesList();
@@ -4188,6 +6109,9 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
                     break;
                 case 'resetToEmpty':
                     historyData = [];
+                    pendingQuestions = [];
+                    activeRequestId = null;
+                    renderQuestionTabs();
                     resetToEmpty();
                     break;
                 case 'workspaceInfo':
@@ -4225,6 +6149,9 @@ export class FeedbackPanelProvider implements vscode.WebviewViewProvider {
                 case 'starredLoaded':
                     starredMessages = data.starred || [];
                     break;
+                case 'searchResults':
+                    renderSearchResults(data.query, data.results || [], data.clients || []);
+                    break;
                 case 'starToggled':
                     starredMessages = data.starredMessages || [];
                     // 更新历史消息中的收藏状态
@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+// 扩展与 wrapper 共用的 JSONL 事件日志，每行一个事件，按大小轮转
+// 格式与轮转规则需与 mcp-stdio-wrapper.js 中的 logEvent 保持一致
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEvent {
+    ts: string;
+    level: LogLevel;
+    source: 'extension' | 'wrapper';
+    event: string;
+    pid: number;
+    requestId?: string;
+    client?: string;
+    tool?: string;
+    messageSize?: number;
+    waitMs?: number;
+    outcome?: string;
+    [key: string]: any;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+export const LOG_DIR = path.join(os.homedir(), '.panel-feedback', 'logs');
+export const LOG_FILE = path.join(LOG_DIR, 'events.jsonl');
+const MAX_LOG_SIZE = 1024 * 1024;  // 超过 1MB 轮转
+const MAX_ROTATED_FILES = 3;  // 保留 events.1.jsonl ~ events.3.jsonl
+
+let outputChannel: vscode.OutputChannel | undefined;
+
+function getLogLevel(): LogLevel {
+    const level = vscode.workspace.getConfiguration('feedbackPanel').get<LogLevel>('logLevel', 'info');
+    return LOG_LEVELS.includes(level) ? level : 'info';
+}
+
+function isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(getLogLevel());
+}
+
+// 其他进程已经移走文件时忽略
+function renameIfExists(from: string, to: string) {
+    try {
+        fs.renameSync(from, to);
+        return true;
+    } catch (e: any) {
+        if (e.code === 'ENOENT') {
+            return false;
+        }
+        throw e;
+    }
+}
+
+// events.jsonl -> events.1.jsonl -> ... -> events.N.jsonl，最旧的被覆盖。
+// 多个窗口和 wrapper 可能同时轮转：先把 events.jsonl 改名为带 pid 的文件，改名成功的进程负责轮转，其余进程直接写入新文件
+function rotateIfNeeded() {
+    try {
+        if (fs.statSync(LOG_FILE).size < MAX_LOG_SIZE) {
+            return;
+        }
+    } catch {
+        return;
+    }
+    const claimed = path.join(LOG_DIR, `events.${process.pid}.rotating`);
+    if (!renameIfExists(LOG_FILE, claimed)) {
+        return;
+    }
+    for (let i = MAX_ROTATED_FILES - 1; i >= 1; i--) {
+        renameIfExists(path.join(LOG_DIR, `events.${i}.jsonl`), path.join(LOG_DIR, `events.${i + 1}.jsonl`));
+    }
+    fs.renameSync(claimed, path.join(LOG_DIR, 'events.1.jsonl'));
+}
+
+function formatEvent(entry: LogEvent): string {
+    const { ts, level, source, event, pid, ...fields } = entry;
+    const details = Object.entries(fields).map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+    return `[${ts}] [${level}] [${source}] ${event}${details.length ? ' ' + details.join(' ') : ''}`;
+}
+
+// 记录一个事件，低于 feedbackPanel.logLevel 的级别不写入
+export function logEvent(level: LogLevel, event: string, fields: Record<string, any> = {}) {
+    if (!isEnabled(level)) {
+        return;
+    }
+    const entry: LogEvent = { ts: new Date().toISOString(), level, source: 'extension', event, pid: process.pid, ...fields };
+    try {
+        if (!fs.existsSync(LOG_DIR)) {
+            fs.mkdirSync(LOG_DIR, { recursive: true, mode: 0o700 });
+        }
+        rotateIfNeeded();
+        fs.appendFileSync(LOG_FILE, JSON.stringify(entry) + '\n');
+    } catch (e) {
+        console.error('Failed to write event log:', e);
+    }
+    outputChannel?.appendLine(formatEvent(entry));
+}
+
+// 按时间顺序读取所有日志文件（含已轮转的），跳过无法解析的行
+export function readLogEvents(): LogEvent[] {
+    const files = [];
+    for (let i = MAX_ROTATED_FILES; i >= 1; i--) {
+        files.push(path.join(LOG_DIR, `events.${i}.jsonl`));
+    }
+    files.push(LOG_FILE);
+
+    const events: LogEvent[] = [];
+    for (const file of files) {
+        if (!fs.existsSync(file)) continue;
+        for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                events.push(JSON.parse(line));
+            } catch {
+                // 写入中途被截断的行
+            }
+        }
+    }
+    return events;
+}
+
+// 在 Output 面板中显示日志，之后扩展写入的事件会实时追加
+export function showLogs() {
+    if (!outputChannel) {
+        outputChannel = vscode.window.createOutputChannel('Panel Feedback');
+    }
+    outputChannel.clear();
+    for (const entry of readLogEvents()) {
+        if (LOG_LEVELS.includes(entry.level) && isEnabled(entry.level)) {
+            outputChannel.appendLine(formatEvent(entry));
+        }
+    }
+    outputChannel.show(true);
+}
+
+export function disposeEventLog() {
+    outputChannel?.dispose();
+    outputChannel = undefined;
+}
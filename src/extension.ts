@@ -1,8 +1,10 @@
 import * as vscode from 'vscode';
 import { FeedbackPanelProvider } from './FeedbackPanelProvider';
-import { MCPServer } from './mcpServer';
+import { MCPServer, ServerStatus } from './mcpServer';
+import { disposeEventLog, logEvent, showLogs } from './eventLog';
 import { execSync } from 'child_process';
 import * as https from 'https';
+import * as http from 'http';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -30,6 +32,7 @@ function getNodePath(): string {
 }
 
 let mcpServer: MCPServer | undefined;
+let feedbackProvider: FeedbackPanelProvider | undefined;
 
 const GITHUB_REPO = 'fhyfhy17/panel-feedback';
 const EXTENSION_ID = 'fhyfhy17.windsurf-feedback-panel';
@@ -145,6 +148,7 @@ function copyMcpServerToFixedLocation(extensionUri: vscode.Uri): boolean {
             console.log(`MCP server copied to: ${FIXED_MCP_PATH}`);
         } else {
             console.warn(`Source MCP file not found: ${sourcePath}`);
+            logEvent('error', 'wrapper.copyFailed', { error: `Source not found: ${sourcePath}` });
             return false;
         }
         
@@ -154,10 +158,126 @@ function copyMcpServerToFixedLocation(extensionUri: vscode.Uri): boolean {
         return true;
     } catch (err) {
         console.warn(`Failed to copy MCP server to fixed location:`, err);
+        logEvent('error', 'wrapper.copyFailed', { error: String(err) });
         return false;
     }
 }
 
+/**
+ * 通过 GET /status 检查服务是否真的在响应，失败时返回错误信息
+ */
+function fetchServerStatus(server: MCPServer): Promise<ServerStatus | string> {
+    const socketPath = server.getSocketPath();
+    const port = server.getPort();
+    if (!socketPath && !port) {
+        return Promise.resolve('Not listening');
+    }
+    return new Promise(resolve => {
+        const req = http.get({
+            ...(socketPath ? { socketPath } : { hostname: '127.0.0.1', port }),
+            path: '/status',
+            headers: { 'Authorization': `Bearer ${server.getToken()}` },
+            timeout: 3000
+        }, res => {
+            let data = '';
+            res.on('data', chunk => data += chunk);
+            res.on('end', () => {
+                try {
+                    resolve(res.statusCode === 200 ? JSON.parse(data) : `HTTP ${res.statusCode}`);
+                } catch {
+                    resolve('Invalid response');
+                }
+            });
+        });
+        req.on('timeout', () => req.destroy(new Error('Timed out')));
+        req.on('error', err => resolve(err.message));
+    });
+}
+
+function formatUptime(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    if (minutes < 60) {
+        return `${minutes}m`;
+    }
+    const hours = Math.floor(minutes / 60);
+    return hours < 24 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+/**
+ * Show Server Status：显示服务状态，并提供重启服务、重新复制 wrapper 等操作
+ */
+async function showServerStatus(context: vscode.ExtensionContext) {
+    if (!mcpServer) {
+        return;
+    }
+    const status = await fetchServerStatus(mcpServer);
+    type StatusItem = vscode.QuickPickItem & { action?: 'restart' | 'copyWrapper' | 'showLogs' | 'copyStatus' };
+    const items: StatusItem[] = [];
+
+    if (typeof status === 'string') {
+        items.push({
+            label: '$(error) Server not responding',
+            description: `port ${mcpServer.getPort() || '-'}`,
+            detail: status
+        });
+    } else {
+        const { wrapper } = status;
+        items.push(
+            {
+                label: '$(pass) Server running',
+                description: `v${status.version} · ${status.port ? `port ${status.port}${status.fixedPort ? ' (fixed)' : ''}` : 'TCP off'} · pid ${status.pid}`,
+                detail: `Uptime ${formatUptime(status.uptimeMs)}${status.socketPath ? ` · socket ${status.socketPath}` : ''}`
+            },
+            {
+                label: `$(folder) ${status.workspaceName || '(no workspace)'}`,
+                detail: status.workspaceFolders.join(', ') || undefined
+            },
+            {
+                label: `$(comment-discussion) ${status.requests.pending} pending, ${status.requests.settled} awaiting pickup`,
+                description: `${status.mcpSessions} Streamable HTTP session(s)`
+            },
+            {
+                label: wrapper.upToDate
+                    ? `$(check) Wrapper v${wrapper.installedVersion}`
+                    : `$(warning) Wrapper ${wrapper.installedVersion ? 'v' + wrapper.installedVersion : 'missing or outdated'}`,
+                description: wrapper.upToDate ? 'up to date' : `extension ships v${wrapper.bundledVersion || '?'}`,
+                detail: wrapper.path
+            }
+        );
+    }
+
+    items.push(
+        { label: 'Actions', kind: vscode.QuickPickItemKind.Separator },
+        { label: '$(debug-restart) Restart server', action: 'restart' },
+        { label: '$(file-symlink-file) Re-copy wrapper', description: FIXED_MCP_PATH, action: 'copyWrapper' },
+        { label: '$(output) Show logs', action: 'showLogs' }
+    );
+    if (typeof status !== 'string') {
+        items.push({ label: '$(copy) Copy status JSON', action: 'copyStatus' });
+    }
+
+    const choice = await vscode.window.showQuickPick(items, { placeHolder: 'Panel Feedback server status' });
+    switch (choice?.action) {
+        case 'restart':
+            await mcpServer.restart();
+            vscode.window.showInformationMessage(`Panel Feedback: server restarted on port ${mcpServer.getPort()}`);
+            break;
+        case 'copyWrapper':
+            if (copyMcpServerToFixedLocation(context.extensionUri)) {
+                vscode.window.showInformationMessage(`Panel Feedback: wrapper copied to ${FIXED_MCP_PATH}. Restart your MCP client to pick it up.`);
+            } else {
+                vscode.window.showErrorMessage('Panel Feedback: failed to copy wrapper, see Show Logs for details');
+            }
+            break;
+        case 'showLogs':
+            showLogs();
+            break;
+        case 'copyStatus':
+            await vscode.env.clipboard.writeText(JSON.stringify(status, null, 2));
+            break;
+    }
+}
+
 export function activate(context: vscode.ExtensionContext) {
     console.log('Windsurf Feedback Panel is now active!');
     
@@ -170,6 +290,7 @@ export function activate(context: vscode.ExtensionContext) {
     // 创建侧边栏 Provider
     const provider = new FeedbackPanelProvider(context.extensionUri);
     provider.setExtensionContext(context);  // 设置上下文
+    feedbackProvider = provider;
     
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider(
@@ -212,28 +333,79 @@ export function activate(context: vscode.ExtensionContext) {
     // 复制 MCP 配置命令
     context.subscriptions.push(
         vscode.commands.registerCommand('feedbackPanel.copyMcpConfig', async () => {
-            // 使用固定路径，这样更新扩展后不用重新配置
-            // macOS/Linux 使用固定的 node 符号链接，Windows 使用动态检测的 node 路径
-            const nodePath = (os.platform() === 'win32' || !fs.existsSync(FIXED_NODE_PATH)) 
-                ? getNodePath() 
-                : FIXED_NODE_PATH;
-            const config = {
-                "panel-feedback": {
-                    "command": nodePath,
-                    "args": [FIXED_MCP_PATH]
+            const port = mcpServer?.getPort() || 0;
+            const mcpUrl = `http://127.0.0.1:${port}/mcp`;
+            const choice = await vscode.window.showQuickPick([
+                {
+                    label: '$(terminal) Command (stdio)',
+                    description: 'node + mcp-stdio-wrapper.js',
+                    detail: 'Works with every MCP client. Finds the right IDE window and its current access token automatically, so the config keeps working after restarts.',
+                    type: 'command' as const
+                },
+                {
+                    label: '$(globe) URL (Streamable HTTP) — this session only',
+                    description: mcpUrl,
+                    detail: 'Client connects straight to this window. The embedded access token stops working when the IDE restarts; use Command for a permanent config.',
+                    type: 'url' as const
                 }
-            };
-            const isFixedNode = nodePath === FIXED_NODE_PATH;
-            const instruction = `Paste this config into mcp_config.json under mcpServers.\n\n` +
-                `MCP server path: ${FIXED_MCP_PATH}\n` +
-                `Node path: ${nodePath}${isFixedNode ? ' (symlink, auto-updates on IDE restart)' : ''}\n\n` +
-                `You only need to configure once - updates won't change these paths.`;
+            ], { placeHolder: 'Select MCP config type' });
+
+            if (!choice) {
+                return;
+            }
+
+            // Streamable HTTP 只能走 TCP
+            if (choice.type === 'url' && !port) {
+                vscode.window.showErrorMessage('Panel Feedback: TCP is disabled (feedbackPanel.transport = "socket"). Set it to "auto" or "tcp" to use the URL config.');
+                return;
+            }
+
+            let config: Record<string, any>;
+            let instruction: string;
+
+            if (choice.type === 'url') {
+                config = {
+                    "panel-feedback": {
+                        "url": mcpUrl,
+                        "headers": {
+                            "Authorization": `Bearer ${mcpServer?.getToken()}`
+                        }
+                    }
+                };
+                instruction = `This config is only valid until the IDE restarts: the access token is generated on every start. ` +
+                    `Copy it again after restarting, or use the Command (stdio) config, which always reads the current token.\n\n` +
+                    `Paste this config into your MCP client config under mcpServers.\n\n` +
+                    `MCP endpoint: ${mcpUrl}\n` +
+                    `Windsurf uses "serverUrl" instead of "url".\n\n` +
+                    (mcpServer?.isFixedPort()
+                        ? `The port is fixed by the feedbackPanel.serverPort setting.`
+                        : `The port is random and changes when the IDE restarts. Set feedbackPanel.serverPort to keep this URL stable.`);
+            } else {
+                // 使用固定路径，这样更新扩展后不用重新配置
+                // macOS/Linux 使用固定的 node 符号链接，Windows 使用动态检测的 node 路径
+                const nodePath = (os.platform() === 'win32' || !fs.existsSync(FIXED_NODE_PATH)) 
+                    ? getNodePath() 
+                    : FIXED_NODE_PATH;
+                config = {
+                    "panel-feedback": {
+                        "command": nodePath,
+                        "args": [FIXED_MCP_PATH]
+                    }
+                };
+                const isFixedNode = nodePath === FIXED_NODE_PATH;
+                instruction = `Paste this config into mcp_config.json under mcpServers.\n\n` +
+                    `MCP server path: ${FIXED_MCP_PATH}\n` +
+                    `Node path: ${nodePath}${isFixedNode ? ' (symlink, auto-updates on IDE restart)' : ''}\n\n` +
+                    `You only need to configure once - updates won't change these paths.`;
+            }
 
             const configStr = JSON.stringify(config, null, 2);
             await vscode.env.clipboard.writeText(configStr);
             
             vscode.window.showInformationMessage(
-                '✅ MCP config copied to clipboard! (using fixed path)', 
+                choice.type === 'url'
+                    ? '✅ MCP URL config copied to clipboard. It is only valid until the IDE restarts — use the Command config for a permanent setup.'
+                    : '✅ MCP config copied to clipboard! (using fixed path)', 
                 'Show Instructions'
             ).then(action => {
                 if (action === 'Show Instructions') {
@@ -261,8 +433,8 @@ export function activate(context: vscode.ExtensionContext) {
 
     // 在编辑器标签页中打开收藏列表
     context.subscriptions.push(
-        vscode.commands.registerCommand('feedbackPanel.openStarredInEditor', () => {
-            provider.openStarredInEditor(context);
+        vscode.commands.registerCommand('feedbackPanel.openStarredInEditor', (msgId?: string) => {
+            provider.openStarredInEditor(context, msgId);
         })
     );
 
@@ -273,10 +445,39 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    // 在编辑器标签页中浏览历史会话
+    context.subscriptions.push(
+        vscode.commands.registerCommand('feedbackPanel.openSessions', (sessionId?: string, msgId?: string) => {
+            provider.openSessionsInEditor(context, sessionId, msgId);
+        })
+    );
+
+    // 导入导出的 JSON 对话，作为只读会话打开
+    context.subscriptions.push(
+        vscode.commands.registerCommand('feedbackPanel.importConversation', () => {
+            provider.importConversation(context);
+        })
+    );
+
+    // 查看服务状态
+    context.subscriptions.push(
+        vscode.commands.registerCommand('feedbackPanel.showStatus', () => showServerStatus(context))
+    );
+
+    // 在 Output 面板中查看事件日志
+    context.subscriptions.push(
+        vscode.commands.registerCommand('feedbackPanel.showLogs', () => {
+            showLogs();
+        })
+    );
+
 }
 
 export function deactivate() {
+    // 写入尚未保存的会话变化
+    feedbackProvider?.flushSession();
     if (mcpServer) {
         mcpServer.stop();
     }
+    disposeEventLog();
 }
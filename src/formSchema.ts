@@ -0,0 +1,134 @@
+// panel_form 工具的表单定义与校验
+// schema 是 JSON Schema 的一个子集：一层 object，字段只能是 string / number / integer / boolean
+
+export type FormFieldType = 'string' | 'number' | 'integer' | 'boolean';
+
+export interface FormField {
+    type: FormFieldType;
+    title?: string;
+    description?: string;
+    enum?: Array<string | number>;
+    enumNames?: string[];
+    default?: string | number | boolean;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+}
+
+export interface FormSchema {
+    type: 'object';
+    properties: Record<string, FormField>;
+    required: string[];
+}
+
+const FIELD_TYPES: FormFieldType[] = ['string', 'number', 'integer', 'boolean'];
+
+// 检查并规范化 AI 传入的 schema，不合法时抛出错误
+export function normalizeFormSchema(raw: any): FormSchema {
+    if (!raw || typeof raw !== 'object' || !raw.properties || typeof raw.properties !== 'object') {
+        throw new Error('Invalid form schema: "properties" is required');
+    }
+
+    const properties: Record<string, FormField> = {};
+    for (const [name, field] of Object.entries<any>(raw.properties)) {
+        if (!field || !FIELD_TYPES.includes(field.type)) {
+            throw new Error(`Invalid form schema: field "${name}" must have type ${FIELD_TYPES.join(' / ')}`);
+        }
+        if (field.enum !== undefined && (!Array.isArray(field.enum) || field.enum.length === 0)) {
+            throw new Error(`Invalid form schema: "enum" of field "${name}" must be a non-empty array`);
+        }
+        if (field.pattern !== undefined) {
+            try {
+                new RegExp(field.pattern);
+            } catch {
+                throw new Error(`Invalid form schema: "pattern" of field "${name}" is not a valid regular expression`);
+            }
+        }
+        properties[name] = field;
+    }
+    if (Object.keys(properties).length === 0) {
+        throw new Error('Invalid form schema: at least one field is required');
+    }
+
+    const required = Array.isArray(raw.required)
+        ? raw.required.filter((name: any) => typeof name === 'string' && name in properties)
+        : [];
+
+    return { type: 'object', properties, required };
+}
+
+// 把 webview 提交的原始值转换为字段类型并校验，errors 为空表示通过
+export function validateFormValues(
+    schema: FormSchema,
+    rawValues: Record<string, any>
+): { values: Record<string, any>; errors: Record<string, string> } {
+    const values: Record<string, any> = {};
+    const errors: Record<string, string> = {};
+
+    for (const [name, field] of Object.entries(schema.properties)) {
+        const raw = rawValues?.[name];
+        const isEmpty = raw === undefined || raw === null || raw === '';
+
+        if (field.type === 'boolean') {
+            values[name] = raw === true || raw === 'true';
+            continue;
+        }
+
+        if (isEmpty) {
+            if (schema.required.includes(name)) {
+                errors[name] = '此项为必填';
+            }
+            continue;
+        }
+
+        let value: string | number = String(raw);
+        if (field.type === 'number' || field.type === 'integer') {
+            value = Number(raw);
+            if (Number.isNaN(value)) {
+                errors[name] = '请输入数字';
+                continue;
+            }
+            if (field.type === 'integer' && !Number.isInteger(value)) {
+                errors[name] = '请输入整数';
+                continue;
+            }
+            if (field.minimum !== undefined && value < field.minimum) {
+                errors[name] = `不能小于 ${field.minimum}`;
+                continue;
+            }
+            if (field.maximum !== undefined && value > field.maximum) {
+                errors[name] = `不能大于 ${field.maximum}`;
+                continue;
+            }
+        } else {
+            if (field.minLength !== undefined && value.length < field.minLength) {
+                errors[name] = `至少 ${field.minLength} 个字符`;
+                continue;
+            }
+            if (field.maxLength !== undefined && value.length > field.maxLength) {
+                errors[name] = `最多 ${field.maxLength} 个字符`;
+                continue;
+            }
+            if (field.pattern !== undefined && !new RegExp(field.pattern).test(value)) {
+                errors[name] = `格式不正确（${field.pattern}）`;
+                continue;
+            }
+        }
+
+        // select 提交的是字符串，按原始枚举值还原类型
+        if (field.enum) {
+            const match = field.enum.find(option => String(option) === String(value));
+            if (match === undefined) {
+                errors[name] = '请选择有效的选项';
+                continue;
+            }
+            value = match;
+        }
+
+        values[name] = value;
+    }
+
+    return { values, errors };
+}
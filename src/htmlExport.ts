@@ -0,0 +1,216 @@
+// 把对话导出为单个 HTML 文件：Markdown 渲染、代码高亮和图片都内联，不依赖外部资源
+
+export interface HtmlExportMessage {
+    kind: 'ai' | 'user' | 'status';
+    heading: string;  // 如 "🤖 AI · Cursor"
+    timestamp: number;
+    content: string;
+    images?: string[];
+}
+
+export interface HtmlExportInfo {
+    title: string;
+    workspace: string;
+    exportedAt: number;
+}
+
+// 用 # 注释的语言，其余按 // 和 /* */ 处理
+const HASH_COMMENT_LANGS = new Set([
+    'python', 'py', 'sh', 'bash', 'shell', 'zsh', 'console', 'yaml', 'yml', 'toml', 'ruby', 'rb', 'perl', 'r',
+    'dockerfile', 'makefile', 'ini', 'conf', 'properties'
+]);
+
+const KEYWORDS = new Set([
+    'abstract', 'and', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'def',
+    'default', 'defer', 'del', 'do', 'done', 'elif', 'else', 'enum', 'esac', 'except', 'export', 'extends',
+    'false', 'False', 'fi', 'finally', 'fn', 'for', 'from', 'func', 'function', 'go', 'if', 'impl', 'implements',
+    'import', 'in', 'instanceof', 'interface', 'is', 'lambda', 'let', 'local', 'match', 'mut', 'new', 'nil',
+    'None', 'not', 'null', 'of', 'or', 'package', 'pass', 'private', 'protected', 'pub', 'public', 'raise',
+    'readonly', 'return', 'self', 'static', 'struct', 'super', 'switch', 'then', 'this', 'throw', 'trait',
+    'true', 'True', 'try', 'type', 'typeof', 'undefined', 'use', 'var', 'void', 'while', 'with', 'yield'
+]);
+
+// 分组：1 注释，2 字符串，3 数字，4 标识符
+const C_STYLE_TOKENS = /(\/\/[^\n]*|\/\*[\s\S]*?\*\/)|("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`)|(\b\d+(?:\.\d+)?\b)|([A-Za-z_$][\w$]*)/g;
+const HASH_STYLE_TOKENS = /(#[^\n]*)|("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*')|(\b\d+(?:\.\d+)?\b)|([A-Za-z_$][\w$]*)/g;
+
+const IMAGE_DATA_URL = /^data:image\/[\w.+-]+;base64,[A-Za-z0-9+/=\s]+$/;
+
+export function isImageDataUrl(src: string): boolean {
+    return IMAGE_DATA_URL.test(src);
+}
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+// 简单的词法高亮：注释、字符串、数字和常见关键字；没有指定语言时只转义
+export function highlightCode(code: string, lang: string = ''): string {
+    if (!lang) {
+        return escapeHtml(code);
+    }
+    const pattern = new RegExp(HASH_COMMENT_LANGS.has(lang.toLowerCase()) ? HASH_STYLE_TOKENS : C_STYLE_TOKENS);
+    let html = '';
+    let last = 0;
+    for (let match = pattern.exec(code); match; match = pattern.exec(code)) {
+        html += escapeHtml(code.substring(last, match.index));
+        const [token, comment, str, num, word] = match;
+        const cls = comment ? 'comment' : str ? 'string' : num ? 'number' : word && KEYWORDS.has(word) ? 'keyword' : '';
+        html += cls ? `<span class="tok-${cls}">${escapeHtml(token)}</span>` : escapeHtml(token);
+        last = match.index + token.length;
+    }
+    return html + escapeHtml(code.substring(last));
+}
+
+// 行内格式：代码、粗体、斜体、链接（text 已转义）
+function renderInline(text: string, codeSpans: string[]): string {
+    return text
+        .replace(/`([^`]+)`/g, (_, code) => {
+            codeSpans.push(`<code>${code}</code>`);
+            return `\u0001${codeSpans.length - 1}\u0001`;
+        })
+        .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+        .replace(/\*(.+?)\*/g, '<em>$1</em>')
+        .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '<a href="$2">$1</a>');
+}
+
+// Markdown 子集：代码块、标题、列表、引用、分隔线和段落，原始 HTML 一律转义
+export function renderMarkdown(text: string): string {
+    const blocks: string[] = [];
+    const codeSpans: string[] = [];
+
+    // 先取出代码块，避免其中的内容被当作 Markdown 处理
+    const source = text.replace(/\r\n/g, '\n').replace(/```([\w+#.-]*)[^\S\n]*\n?([\s\S]*?)```/g, (_, lang: string, code: string) => {
+        const langClass = lang ? ` class="language-${escapeHtml(lang)}"` : '';
+        blocks.push(`<pre><code${langClass}>${highlightCode(code.replace(/\n$/, ''), lang)}</code></pre>`);
+        return `\u0000${blocks.length - 1}\u0000`;
+    });
+
+    const html: string[] = [];
+    let paragraph: string[] = [];
+    let list: { tag: 'ul' | 'ol'; items: string[] } | undefined;
+
+    const flush = () => {
+        if (paragraph.length > 0) {
+            html.push(`<p>${paragraph.join('<br>')}</p>`);
+            paragraph = [];
+        }
+        if (list) {
+            html.push(`<${list.tag}>${list.items.map(item => `<li>${item}</li>`).join('')}</${list.tag}>`);
+            list = undefined;
+        }
+    };
+
+    const inline = (text: string) => renderInline(text, codeSpans);
+
+    for (const rawLine of source.split('\n')) {
+        const line = escapeHtml(rawLine);
+        const trimmed = rawLine.trim();
+        let match: RegExpMatchArray | null;
+
+        if (!trimmed) {
+            flush();
+        } else if (/^\u0000\d+\u0000$/.test(trimmed)) {
+            flush();
+            html.push(trimmed);
+        } else if ((match = line.match(/^(#{1,6})\s+(.*)$/))) {
+            flush();
+            html.push(`<h${match[1].length}>${inline(match[2])}</h${match[1].length}>`);
+        } else if (/^(-{3,}|\*{3,})$/.test(trimmed)) {
+            flush();
+            html.push('<hr>');
+        } else if ((match = line.match(/^\s*([-*+]|\d+\.)\s+(.*)$/))) {
+            const tag = /\d/.test(match[1]) ? 'ol' : 'ul';
+            if (paragraph.length > 0 || (list && list.tag !== tag)) {
+                flush();
+            }
+            list = list || { tag, items: [] };
+            list.items.push(inline(match[2]));
+        } else if ((match = line.match(/^&gt;\s?(.*)$/))) {
+            flush();
+            html.push(`<blockquote>${inline(match[1])}</blockquote>`);
+        } else {
+            if (list) {
+                flush();
+            }
+            paragraph.push(inline(line));
+        }
+    }
+    flush();
+
+    return html.join('\n')
+        .replace(/\u0001(\d+)\u0001/g, (_, i) => codeSpans[Number(i)])
+        .replace(/\u0000(\d+)\u0000/g, (_, i) => blocks[Number(i)]);
+}
+
+export function generateHtmlExport(info: HtmlExportInfo, messages: HtmlExportMessage[]): string {
+    const body = messages.map(msg => {
+        // 只内联图片的 data URL，其他地址可能在打开时访问外部资源
+        const images = (msg.images || []).filter(isImageDataUrl);
+        return `<section class="msg ${msg.kind}">
+    <div class="msg-header"><span class="role">${escapeHtml(msg.heading)}</span><time>${escapeHtml(new Date(msg.timestamp).toLocaleString())}</time></div>
+    <div class="msg-body">${renderMarkdown(msg.content)}</div>${images.length > 0 ? `
+    <div class="images">${images.map(src => `<img src="${escapeHtml(src)}" alt="">`).join('')}</div>` : ''}
+</section>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(info.title)}</title>
+<style>
+    :root { --fg: #1f2328; --muted: #656d76; --bg: #ffffff; --border: #d0d7de; --ai: #0969da; --user: #1a7f37; --code-bg: #f6f8fa; }
+    @media (prefers-color-scheme: dark) {
+        :root { --fg: #e6edf3; --muted: #8d96a0; --bg: #0d1117; --border: #30363d; --ai: #4493f8; --user: #3fb950; --code-bg: #161b22; }
+    }
+    body { margin: 0 auto; max-width: 860px; padding: 24px 16px; font: 14px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; color: var(--fg); background: var(--bg); }
+    header { border-bottom: 1px solid var(--border); margin-bottom: 16px; }
+    header h1 { font-size: 20px; margin: 0 0 4px; }
+    .meta, time { color: var(--muted); font-size: 12px; }
+    .meta { margin-bottom: 12px; }
+    .msg { border-left: 3px solid var(--border); padding: 4px 12px; margin: 0 0 16px; }
+    .msg.ai { border-left-color: var(--ai); }
+    .msg.user { border-left-color: var(--user); }
+    .msg.status { font-size: 13px; }
+    .msg-header { display: flex; justify-content: space-between; gap: 12px; margin-bottom: 4px; }
+    .role { font-weight: 600; }
+    .msg-body p, .msg-body ul, .msg-body ol, .msg-body pre, .msg-body blockquote { margin: 0 0 8px; }
+    .msg-body h1, .msg-body h2, .msg-body h3, .msg-body h4, .msg-body h5, .msg-body h6 { margin: 12px 0 6px; font-size: 15px; }
+    .msg-body blockquote { padding-left: 10px; border-left: 3px solid var(--border); color: var(--muted); }
+    code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 12px; background: var(--code-bg); padding: 1px 4px; border-radius: 4px; }
+    pre { background: var(--code-bg); border: 1px solid var(--border); border-radius: 6px; padding: 10px 12px; overflow-x: auto; }
+    pre code { padding: 0; background: none; }
+    .tok-comment { color: #6e7781; font-style: italic; }
+    .tok-string { color: #0a3069; }
+    .tok-number { color: #0550ae; }
+    .tok-keyword { color: #cf222e; }
+    @media (prefers-color-scheme: dark) {
+        .tok-comment { color: #8b949e; }
+        .tok-string { color: #a5d6ff; }
+        .tok-number { color: #79c0ff; }
+        .tok-keyword { color: #ff7b72; }
+    }
+    .images { display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 8px; }
+    .images img { max-width: 100%; max-height: 480px; border: 1px solid var(--border); border-radius: 4px; }
+    a { color: var(--ai); }
+</style>
+</head>
+<body>
+<header>
+    <h1>${escapeHtml(info.title)}</h1>
+    <div class="meta">导出时间: ${escapeHtml(new Date(info.exportedAt).toLocaleString())} · 工作区: ${escapeHtml(info.workspace || '未知')} · ${messages.length} 条消息</div>
+</header>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,78 @@
+// 检测 AI 反复发送几乎相同的问题（例如软超时后换个说法再问一次）
+
+// 相似度达到该值视为同一个问题
+const SIMILARITY_THRESHOLD = 0.9;
+
+export interface RepeatInfo {
+    count: number;  // 包括本次在内，窗口内第几次问同一个问题
+    previousRequestId: string;
+}
+
+interface RecentQuestion {
+    key: string;
+    text: string;
+    requestId: string;
+    askedAt: number;
+    count: number;
+}
+
+// 忽略大小写、空白和标点的差异
+export function normalizeMessage(message: string): string {
+    return message.toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, '');
+}
+
+// 字符二元组的 Dice 系数，0 ~ 1
+export function messageSimilarity(a: string, b: string): number {
+    if (a === b) {
+        return 1;
+    }
+    if (a.length < 2 || b.length < 2) {
+        return 0;
+    }
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+        const bigram = a.substring(i, i + 2);
+        bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+    }
+    let matches = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+        const bigram = b.substring(i, i + 2);
+        const remaining = bigrams.get(bigram) || 0;
+        if (remaining > 0) {
+            bigrams.set(bigram, remaining - 1);
+            matches++;
+        }
+    }
+    return (2 * matches) / (a.length + b.length - 2);
+}
+
+export class LoopDetector {
+    private recent: RecentQuestion[] = [];
+
+    // 记录一个新问题；key 相同（同一客户端、同一对话）且 windowMs 内有相似问题时返回重复信息。
+    // canMerge 返回 false 的旧问题不参与匹配
+    record(
+        key: string,
+        message: string,
+        requestId: string,
+        windowMs: number,
+        canMerge: (previousRequestId: string) => boolean = () => true,
+        now: number = Date.now()
+    ): RepeatInfo | undefined {
+        this.recent = this.recent.filter(q => now - q.askedAt <= windowMs);
+        const text = normalizeMessage(message);
+
+        let previous: RecentQuestion | undefined;
+        for (let i = this.recent.length - 1; i >= 0; i--) {
+            const candidate = this.recent[i];
+            if (candidate.key === key && messageSimilarity(candidate.text, text) >= SIMILARITY_THRESHOLD && canMerge(candidate.requestId)) {
+                previous = candidate;
+                break;
+            }
+        }
+
+        const count = previous ? previous.count + 1 : 1;
+        this.recent.push({ key, text, requestId, askedAt: now, count });
+        return previous ? { count, previousRequestId: previous.requestId } : undefined;
+    }
+}
@@ -0,0 +1,63 @@
+// 把快捷模板转换为 MCP prompts，模板中的 {{变量}} 成为 prompt 参数
+
+export interface PromptTemplate {
+    title: string;
+    content: string;
+}
+
+export interface McpPrompt {
+    name: string;
+    title: string;
+    description: string;
+    arguments: Array<{ name: string; description: string; required: boolean }>;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// 按出现顺序提取不重复的变量名
+export function extractPlaceholders(content: string): string[] {
+    const names: string[] = [];
+    for (const match of content.matchAll(PLACEHOLDER_PATTERN)) {
+        if (!names.includes(match[1])) {
+            names.push(match[1]);
+        }
+    }
+    return names;
+}
+
+// prompt 名称取自模板标题，空白替换为 -，重名时追加序号
+export function templatesToPrompts<T extends PromptTemplate>(templates: T[]): Array<{ prompt: McpPrompt; template: T }> {
+    const used = new Set<string>();
+    return templates.map(template => {
+        const base = template.title.trim().replace(/\s+/g, '-') || 'template';
+        let name = base;
+        for (let i = 2; used.has(name); i++) {
+            name = `${base}-${i}`;
+        }
+        used.add(name);
+
+        const preview = template.content.replace(/\s+/g, ' ').trim();
+        return {
+            template,
+            prompt: {
+                name,
+                title: template.title,
+                description: preview.length > 80 ? preview.substring(0, 80) + '…' : preview,
+                arguments: extractPlaceholders(template.content).map(variable => ({
+                    name: variable,
+                    description: `模板变量 {{${variable}}}`,
+                    required: true
+                }))
+            }
+        };
+    });
+}
+
+// 用参数替换模板中的变量，缺少参数时抛出错误
+export function renderPromptTemplate(content: string, args: Record<string, string> = {}): string {
+    const missing = extractPlaceholders(content).filter(name => args[name] === undefined);
+    if (missing.length > 0) {
+        throw new Error(`Missing required arguments: ${missing.join(', ')}`);
+    }
+    return content.replace(PLACEHOLDER_PATTERN, (_, name) => String(args[name]));
+}
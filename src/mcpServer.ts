@@ -3,25 +3,95 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { FeedbackPanelProvider } from './FeedbackPanelProvider';
+import * as crypto from 'crypto';
+import { CancelKind, FeedbackPanelProvider, MessageSource, NotifyLevel, RiskLevel } from './FeedbackPanelProvider';
+import { MCP_RESOURCES, MCP_TOOLS, SERVER_NAME, negotiateProtocolVersion } from './mcpTools';
+import { normalizeFormSchema } from './formSchema';
+import { renderPromptTemplate, templatesToPrompts } from './mcpPrompts';
+import { logEvent } from './eventLog';
+import { LoopDetector, RepeatInfo } from './loopDetection';
+
+// AI 客户端在 initialize 时提供的 clientInfo
+interface ClientInfo {
+    name?: string;
+    version?: string;
+}
 
 interface PendingRequest {
     id: string;
     params: any;
-    status: 'pending' | 'completed' | 'error';
+    status: 'pending' | 'completed' | 'error' | 'cancelled';
     result?: any;
     error?: string;
     createdAt: number;
+    transport?: 'http';  // 来自 /mcp 端点，随 HTTP 连接结束，不持久化
+    client?: ClientInfo;  // wrapper 转发或 /mcp 会话 initialize 时的 clientInfo
+    detachedAt?: number;  // 等待连接断开（如 wrapper 软超时）的时间，之后可被重新调用接管
+    lastPolledAt?: number;  // 旧版 wrapper 最近一次 /poll 的时间
+    settledAt?: number;
+}
+
+// GET /status 的返回内容
+export interface ServerStatus {
+    version: string;
+    pid: number;
+    port: number;
+    fixedPort: boolean;
+    socketPath: string | null;
+    workspaceName: string;
+    workspaceFolders: string[];
+    startedAt: number;
+    uptimeMs: number;
+    requests: { pending: number; settled: number };
+    mcpSessions: number;
+    wrapper: {
+        path: string;
+        installedVersion: string | null;
+        bundledVersion: string | null;
+        upToDate: boolean;
+    };
+}
+
+// 每个 IDE 窗口一条注册信息，wrapper 据此把请求路由到对应工作区的窗口
+interface ServerRegistryEntry {
+    pid: number;
+    port: number;  // 未启用 TCP 时为 0
+    socketPath?: string;  // Unix domain socket，wrapper 优先使用
+    token: string;
+    workspaceFolders: string[];
+    workspaceName: string;
+    startedAt: number;
+    lastFocusedAt: number;
 }
 
 export class MCPServer {
     private server: http.Server | null = null;
+    private socketServer: http.Server | null = null;
     private port: number = 0;
+    private socketPath: string | null = null;
     private pendingRequests: Map<string, PendingRequest> = new Map();
     private context: vscode.ExtensionContext | null = null;
+    private startedAt: number = Date.now();
+    // 每次启动生成的访问令牌，只写入仅当前用户可读的注册文件
+    private readonly token: string = crypto.randomBytes(32).toString('hex');
+    private lastFocusedAt: number = Date.now();
+    private disposables: vscode.Disposable[] = [];
+    private settledListeners: Map<string, Array<(request: PendingRequest) => void>> = new Map();
+    // 会话 id 到 initialize 时的 clientInfo
+    private mcpSessions: Map<string, ClientInfo | undefined> = new Map();
+    // /mcp 端点的 JSON-RPC id（按会话区分）到内部请求 id 的映射，用于取消
+    private mcpCallRequests: Map<string, string> = new Map();
+    private loopDetector = new LoopDetector();
     
     private static readonly REGISTRY_DIR = path.join(os.homedir(), '.panel-feedback');
     private static readonly PORT_FILE = path.join(os.homedir(), '.panel-feedback', 'port.json');
+    private static readonly SERVERS_DIR = path.join(os.homedir(), '.panel-feedback', 'servers');
+    private static readonly REGISTRY_FILE = path.join(MCPServer.SERVERS_DIR, `${process.pid}.json`);
+    private static readonly SOCKET_FILE = path.join(os.homedir(), '.panel-feedback', `${process.pid}.sock`);
+    private static readonly WRAPPER_FILE = path.join(os.homedir(), '.panel-feedback', 'mcp-stdio-wrapper.js');
+    private static readonly SSE_KEEPALIVE_INTERVAL = 30000;
+    private static readonly WAIT_HEARTBEAT_INTERVAL = 15000;
+    private static readonly SWEEP_INTERVAL = 60000;
 
     constructor(private provider: FeedbackPanelProvider) {}
 
@@ -41,6 +111,7 @@ export class MCPServer {
         
         for (const req of stored) {
             if (req.status === 'pending' && (now - req.createdAt) < SEVEN_DAYS) {
+                req.detachedAt = now;
                 this.pendingRequests.set(req.id, req);
                 this.processRequest(req);
             }
@@ -49,49 +120,225 @@ export class MCPServer {
         console.log(`Restored ${this.pendingRequests.size} pending requests`);
     }
 
-    // 清除所有待处理请求
+    // 清除已完成但还没有被取走的结果。
+    // 清除历史和结束对话时面板已经回复了所有问题，仍是 pending 的请求正等着 processRequest 写入这个回复，
+    // 不能在这里改成错误，由 /wait、/mcp 照常交付，无人领取时由定时清理移除
     public clearPendingRequests(): void {
-        this.pendingRequests.clear();
+        for (const request of Array.from(this.pendingRequests.values())) {
+            if (request.status !== 'pending') {
+                this.pendingRequests.delete(request.id);
+            }
+        }
         this.persistRequests();
-        console.log('All pending requests cleared');
+        console.log('Settled requests cleared');
     }
 
     // 持久化请求状态
     private persistRequests() {
         if (!this.context) return;
-        const requests = Array.from(this.pendingRequests.values());
+        const requests = Array.from(this.pendingRequests.values()).filter(r => r.transport !== 'http');
         this.context.globalState.update('pendingRequests', requests);
     }
 
     // 处理请求（显示到面板）
     private async processRequest(request: PendingRequest) {
         try {
-            const { message, predefined_options } = request.params.arguments || {};
-            console.log('[MCP] processRequest - message:', message?.substring(0, 50), 'options:', predefined_options);
-            
-            const feedback = await this.provider.showMessage(
-                message || '',
-                predefined_options,
-                request.id
-            );
-            
-            const content = this.parseResponse(feedback);
-            
+            let result: any;
+            if (request.params.name === 'panel_form') {
+                result = await this.processFormRequest(request);
+            } else if (request.params.name === 'panel_confirm') {
+                result = await this.processConfirmRequest(request);
+            } else {
+                const { message, predefined_options } = request.params.arguments || {};
+                console.log('[MCP] processRequest - message:', message?.substring(0, 50), 'options:', predefined_options);
+                
+                const source = MCPServer.messageSource(request.params, request.client);
+                const repeat = this.detectRepeat(request, message || '');
+                const feedback = await this.provider.showMessage(
+                    message || '',
+                    predefined_options,
+                    request.id,
+                    source,
+                    repeat
+                );
+                
+                result = this.parseResponse(feedback);
+            }
+
+            // 等待期间已被取消或过期的请求不再改写状态
+            if (request.status !== 'pending') return;
+            request.result = result;
             request.status = 'completed';
-            request.result = { content };
             this.persistRequests();
         } catch (err: any) {
+            // 已被取消的请求不再改写状态
+            if (request.status !== 'pending') return;
             request.status = 'error';
             request.error = err.message;
             this.persistRequests();
         }
+        this.notifySettled(request);
+    }
+
+    // panel_form：返回表单字段值
+    private async processFormRequest(request: PendingRequest): Promise<any> {
+        const { message, schema } = request.params.arguments || {};
+        const formSchema = normalizeFormSchema(schema);
+        console.log('[MCP] processFormRequest - fields:', Object.keys(formSchema.properties));
+
+        const feedback = await this.provider.showForm(
+            message || '请填写以下表单', formSchema, request.id, MCPServer.messageSource(request.params, request.client));
+        return this.structuredResult(feedback);
+    }
+
+    // panel_confirm：返回 { approved, editedCommand, reason }
+    private async processConfirmRequest(request: PendingRequest): Promise<any> {
+        const { action, command, risk } = request.params.arguments || {};
+        if (!action && typeof command !== 'string') {
+            throw new Error('Either "action" or "command" is required');
+        }
+        const level: RiskLevel = ['low', 'medium', 'high'].includes(risk) ? risk : 'medium';
+        console.log('[MCP] processConfirmRequest - risk:', level, 'command:', command?.substring(0, 50));
+
+        const feedback = await this.provider.showConfirm({
+            action: action || '是否允许执行以下命令？',
+            command: typeof command === 'string' ? command : undefined,
+            risk: level
+        }, request.id, MCPServer.messageSource(request.params, request.client));
+        return this.structuredResult(feedback);
+    }
+
+    // 创建请求前检查表单 schema 和确认请求的参数，返回错误信息，通过时返回 undefined
+    private static validateToolArguments(params: any): string | undefined {
+        const { schema, action, command } = params?.arguments || {};
+        if (params?.name === 'panel_form') {
+            try {
+                normalizeFormSchema(schema);
+            } catch (err: any) {
+                return err.message;
+            }
+        } else if (params?.name === 'panel_confirm' && !action && typeof command !== 'string') {
+            return 'Either "action" or "command" is required';
+        }
+        return undefined;
+    }
+
+    // 同一客户端、同一对话在窗口期内反复问几乎相同的问题
+    private detectRepeat(request: PendingRequest, message: string): RepeatInfo | undefined {
+        const windowMinutes = vscode.workspace.getConfiguration('feedbackPanel').get<number>('loopDetectionWindowMinutes', 10);
+        if (windowMinutes <= 0) {
+            return undefined;
+        }
+        const { conversation_id, conversation_title } = request.params.arguments || {};
+        const conversation = conversation_id || conversation_title || '';
+        const key = `${request.client?.name || ''}|${conversation}`;
+        // 没有对话标识时分不清是不是同一个 AI，只合并已经没有连接在等待的旧问题（如软超时后重问）
+        const canMerge = (previousRequestId: string) => {
+            const previous = this.pendingRequests.get(previousRequestId);
+            return !!conversation || !previous || previous.status !== 'pending' || !this.settledListeners.get(previous.id)?.length;
+        };
+        const repeat = this.loopDetector.record(key, message, request.id, windowMinutes * 60000, canMerge);
+        if (repeat) {
+            logEvent('info', 'request.repeated', {
+                requestId: request.id,
+                client: request.client?.name,
+                previousRequestId: repeat.previousRequestId,
+                count: repeat.count
+            });
+        }
+        return repeat;
     }
 
-    private parseResponse(feedback: string): any[] {
+    // 客户端信息和工具参数 conversation_id / conversation_title，用于面板上的来源徽标
+    private static messageSource(params: any, client?: ClientInfo): MessageSource | undefined {
+        const { conversation_id, conversation_title } = params?.arguments || {};
+        const source: MessageSource = {
+            client: client?.name,
+            clientVersion: client?.version,
+            conversationId: typeof conversation_id === 'string' && conversation_id ? conversation_id : undefined,
+            conversationTitle: typeof conversation_title === 'string' && conversation_title ? conversation_title : undefined
+        };
+        return Object.values(source).some(v => v !== undefined) ? source : undefined;
+    }
+
+    private static toClientInfo(raw: any): ClientInfo | undefined {
+        if (!raw || typeof raw !== 'object') {
+            return undefined;
+        }
+        return {
+            name: typeof raw.name === 'string' ? raw.name : undefined,
+            version: typeof raw.version === 'string' ? raw.version : undefined
+        };
+    }
+
+    // 面板返回 JSON 对象时同时提供 structuredContent，结束对话等情况返回普通文本
+    private structuredResult(feedback: string): any {
+        try {
+            const data = JSON.parse(feedback);
+            if (data && typeof data === 'object' && !Array.isArray(data)) {
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+                    structuredContent: data
+                };
+            }
+        } catch {
+            // 不是结构化数据
+        }
+        return { content: [{ type: 'text', text: feedback }] };
+    }
+
+    // 等待请求完成（completed 或 error）；closed 先结束时不再等待，返回 undefined
+    private waitForSettled(request: PendingRequest, closed?: Promise<void>): Promise<PendingRequest | undefined> {
+        if (request.status !== 'pending') {
+            return Promise.resolve(request);
+        }
+        return new Promise(resolve => {
+            const unsubscribe = this.onSettled(request, resolve);
+            closed?.then(() => {
+                unsubscribe();
+                resolve(undefined);
+            });
+        });
+    }
+
+    // 注册完成回调，返回取消注册的函数
+    private onSettled(request: PendingRequest, listener: (request: PendingRequest) => void): () => void {
+        const listeners = this.settledListeners.get(request.id) || [];
+        listeners.push(listener);
+        this.settledListeners.set(request.id, listeners);
+        return () => {
+            const current = this.settledListeners.get(request.id);
+            if (current) {
+                this.settledListeners.set(request.id, current.filter(l => l !== listener));
+            }
+        };
+    }
+
+    private notifySettled(request: PendingRequest) {
+        request.settledAt = Date.now();
+        logEvent(request.status === 'error' ? 'warn' : 'info', 'request.settled', {
+            requestId: request.id,
+            tool: request.params?.name,
+            client: request.client?.name,
+            outcome: request.status,
+            waitMs: Date.now() - request.createdAt,
+            ...(request.error ? { error: request.error } : {})
+        });
+        const listeners = this.settledListeners.get(request.id);
+        if (listeners) {
+            this.settledListeners.delete(request.id);
+            listeners.forEach(listener => listener(request));
+        }
+    }
+
+    // 生成 content（兼容旧客户端）和符合 outputSchema 的 structuredContent
+    private parseResponse(feedback: string): any {
         const content: any[] = [];
+        let structuredContent: any;
         
         try {
             const parsed = JSON.parse(feedback);
+            structuredContent = parsed.structured;
             if (parsed.text) {
                 content.push({ type: 'text', text: parsed.text });
             }
@@ -115,85 +362,371 @@ export class MCPServer {
             content.push({ type: 'text', text: '' });
         }
         
-        return content;
+        // 旧版面板或恢复的请求只有纯文本
+        if (!structuredContent) {
+            structuredContent = {
+                selectedOptions: [],
+                text: content.filter(c => c.type === 'text').map(c => c.text).join('\n'),
+                mentionedFiles: [],
+                images: content.filter(c => c.type === 'image').length,
+                endedByUser: false,
+                rulesAppended: false
+            };
+        }
+        
+        return { content, structuredContent };
     }
 
-    // 写入端口文件
+    // 写入端口文件（兼容只认 port.json 的旧版 wrapper）
     private writePortFile(): void {
         try {
-            if (!fs.existsSync(MCPServer.REGISTRY_DIR)) {
-                fs.mkdirSync(MCPServer.REGISTRY_DIR, { recursive: true });
-            }
-            fs.writeFileSync(MCPServer.PORT_FILE, JSON.stringify({ port: this.port }, null, 2));
+            MCPServer.ensurePrivateDir(MCPServer.REGISTRY_DIR);
+            MCPServer.writePrivateFile(MCPServer.PORT_FILE, JSON.stringify({ port: this.port, token: this.token }, null, 2));
         } catch (e) {
             console.error('Failed to write port file:', e);
         }
     }
 
-    // 删除端口文件
+    // 删除端口文件（只删除指向本窗口的，避免影响其他窗口）
     private deletePortFile(): void {
         try {
             if (fs.existsSync(MCPServer.PORT_FILE)) {
-                fs.unlinkSync(MCPServer.PORT_FILE);
+                const data = JSON.parse(fs.readFileSync(MCPServer.PORT_FILE, 'utf-8'));
+                if (data.port === this.port) {
+                    fs.unlinkSync(MCPServer.PORT_FILE);
+                }
             }
         } catch (e) {
             console.error('Failed to delete port file:', e);
         }
     }
 
-    async start() {
-        this.server = http.createServer(async (req, res) => {
-            res.setHeader('Access-Control-Allow-Origin', '*');
-            res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-            res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    // 写入本窗口的注册信息
+    private writeRegistryEntry(): void {
+        const folders = vscode.workspace.workspaceFolders || [];
+        const entry: ServerRegistryEntry = {
+            pid: process.pid,
+            port: this.port,
+            socketPath: this.socketPath || undefined,
+            token: this.token,
+            workspaceFolders: folders.map(f => f.uri.fsPath),
+            workspaceName: vscode.workspace.name || '',
+            startedAt: this.startedAt,
+            lastFocusedAt: this.lastFocusedAt
+        };
+        try {
+            MCPServer.ensurePrivateDir(MCPServer.REGISTRY_DIR);
+            MCPServer.ensurePrivateDir(MCPServer.SERVERS_DIR);
+            MCPServer.writePrivateFile(MCPServer.REGISTRY_FILE, JSON.stringify(entry, null, 2));
+        } catch (e) {
+            console.error('Failed to write registry entry:', e);
+        }
+    }
 
-            if (req.method === 'OPTIONS') {
-                res.writeHead(200);
-                res.end();
-                return;
-            }
+    // 写入仅当前用户可读写的文件：先以 0600 新建临时文件再改名覆盖，
+    // 令牌不会在权限收紧前出现在原有的宽松权限文件里，读取方也不会读到写了一半的内容
+    private static writePrivateFile(filePath: string, content: string): void {
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        fs.rmSync(tempPath, { force: true });
+        fs.writeFileSync(tempPath, content, { mode: 0o600, flag: 'wx' });
+        try {
+            fs.renameSync(tempPath, filePath);
+        } catch (e) {
+            fs.rmSync(tempPath, { force: true });
+            throw e;
+        }
+    }
 
-            if (req.method !== 'POST') {
-                res.writeHead(405);
-                res.end('Method Not Allowed');
-                return;
+    // 创建仅当前用户可访问的目录（0700），已存在的目录（例如由旧版本创建）也会收紧权限
+    private static ensurePrivateDir(dir: string): void {
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+        } else if (os.platform() !== 'win32') {
+            fs.chmodSync(dir, 0o700);
+        }
+    }
+
+    // 删除本窗口的注册信息
+    private deleteRegistryEntry(): void {
+        try {
+            if (fs.existsSync(MCPServer.REGISTRY_FILE)) {
+                fs.unlinkSync(MCPServer.REGISTRY_FILE);
             }
+        } catch (e) {
+            console.error('Failed to delete registry entry:', e);
+        }
+    }
 
-            let body = '';
-            req.on('data', chunk => body += chunk);
-            req.on('end', async () => {
+    // 清理崩溃窗口留下的注册信息
+    private cleanStaleRegistryEntries(): void {
+        try {
+            if (!fs.existsSync(MCPServer.SERVERS_DIR)) return;
+            for (const file of fs.readdirSync(MCPServer.SERVERS_DIR)) {
+                if (!file.endsWith('.json')) continue;
+                const filePath = path.join(MCPServer.SERVERS_DIR, file);
                 try {
-                    const data = JSON.parse(body);
-                    let response;
-
-                    if (req.url === '/submit') {
-                        response = await this.handleSubmit(data);
-                    } else if (req.url === '/poll') {
-                        response = this.handlePoll(data);
-                    } else {
-                        response = { error: 'Unknown endpoint' };
+                    const entry: ServerRegistryEntry = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+                    if (!MCPServer.isProcessAlive(entry.pid)) {
+                        if (entry.socketPath && fs.existsSync(entry.socketPath)) {
+                            fs.unlinkSync(entry.socketPath);
+                        }
+                        fs.unlinkSync(filePath);
+                        console.log(`Removed stale registry entry: ${file}`);
                     }
-                    
-                    res.setHeader('Content-Type', 'application/json');
-                    res.writeHead(200);
-                    res.end(JSON.stringify(response));
-                } catch (err) {
-                    res.writeHead(400);
-                    res.end(JSON.stringify({ error: 'Parse error' }));
+                } catch {
+                    fs.unlinkSync(filePath);
                 }
+            }
+        } catch (e) {
+            console.error('Failed to clean registry entries:', e);
+        }
+    }
+
+    private static isProcessAlive(pid: number): boolean {
+        try {
+            process.kill(pid, 0);
+            return true;
+        } catch (e: any) {
+            return e.code === 'EPERM';
+        }
+    }
+
+    // 工作区变化或窗口获得焦点时更新注册信息
+    private watchWindowState(): void {
+        this.disposables.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.writeRegistryEntry()),
+            vscode.window.onDidChangeWindowState(state => {
+                if (state.focused) {
+                    this.lastFocusedAt = Date.now();
+                    this.writeRegistryEntry();
+                }
+            })
+        );
+    }
+
+    async start(port?: number) {
+        this.startedAt = Date.now();
+        const { tcp, socket } = this.getTransports();
+        if (socket) {
+            await this.listenOnSocket();
+        }
+        // TCP 始终作为回退：socket 创建失败时也启用
+        if (tcp || !this.socketServer) {
+            this.server = http.createServer((req, res) => this.handleHttpRequest(req, res));
+            await this.tryListen(port);
+        }
+
+        if (this.port || this.socketPath) {
+            this.cleanStaleRegistryEntries();
+            this.writeRegistryEntry();
+            this.watchWindowState();
+            this.startSweeper();
+        }
+    }
+
+    // feedbackPanel.transport：auto 同时监听 Unix socket 和 TCP，socket / tcp 只监听一种；Windows 只用 TCP
+    private getTransports(): { tcp: boolean; socket: boolean } {
+        if (os.platform() === 'win32') {
+            return { tcp: true, socket: false };
+        }
+        const transport = vscode.workspace.getConfiguration('feedbackPanel').get<string>('transport', 'auto');
+        return { tcp: transport !== 'socket', socket: transport !== 'tcp' };
+    }
+
+    // 在 ~/.panel-feedback/<pid>.sock 上监听，权限 0600，只有当前用户能连接
+    private listenOnSocket(): Promise<void> {
+        const socketPath = MCPServer.SOCKET_FILE;
+        return new Promise(resolve => {
+            try {
+                MCPServer.ensurePrivateDir(MCPServer.REGISTRY_DIR);
+                // 同一 pid 遗留的 socket 文件（窗口崩溃）
+                if (fs.existsSync(socketPath)) {
+                    fs.unlinkSync(socketPath);
+                }
+            } catch (e) {
+                console.error('Failed to prepare socket path:', e);
+            }
+
+            const server = http.createServer((req, res) => this.handleHttpRequest(req, res));
+            server.once('error', (err: NodeJS.ErrnoException) => {
+                console.error(`Failed to listen on socket: ${err.message}`);
+                logEvent('error', 'socket.failed', { socketPath, error: err.message });
+                resolve();
+            });
+            server.once('listening', () => {
+                try {
+                    fs.chmodSync(socketPath, 0o600);
+                } catch (e) {
+                    console.error('Failed to chmod socket:', e);
+                }
+                this.socketServer = server;
+                this.socketPath = socketPath;
+                console.log(`MCP Feedback Server listening on ${socketPath}`);
+                logEvent('info', 'server.started', { socketPath });
+                resolve();
             });
+            server.listen(socketPath);
+        });
+    }
+
+    private async handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+        // 所有端点都需要令牌，拒绝浏览器页面和其他本地进程的调用
+        if (!this.isAuthorized(req)) {
+            logEvent('warn', 'auth.rejected', { url: req.url });
+            this.sendJson(res, 401, { error: 'Unauthorized' });
+            return;
+        }
+
+        const pathname = new URL(req.url || '/', 'http://127.0.0.1').pathname;
+        if (pathname === '/mcp') {
+            this.handleMcpHttp(req, res);
+            return;
+        }
+        if (pathname === '/wait' && req.method === 'POST') {
+            this.handleWait(req, res);
+            return;
+        }
+        if (pathname === '/status' && req.method === 'GET') {
+            this.sendJson(res, 200, this.getStatus());
+            return;
+        }
+
+        if (req.method !== 'POST') {
+            res.writeHead(405);
+            res.end('Method Not Allowed');
+            return;
+        }
+
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', async () => {
+            try {
+                const data = JSON.parse(body);
+                let response;
+
+                if (req.url === '/submit') {
+                    response = await this.handleSubmit(data);
+                } else if (req.url === '/poll') {
+                    response = this.handlePoll(data);
+                } else if (req.url === '/notify') {
+                    response = { status: 'completed', data: this.handleNotify(data.params, MCPServer.toClientInfo(data.client)) };
+                } else if (req.url === '/resources/list') {
+                    response = { resources: MCP_RESOURCES };
+                } else if (req.url === '/resources/read') {
+                    response = this.readResource(data.uri) || { error: 'Resource not found', code: -32002 };
+                } else if (req.url === '/prompts/list') {
+                    response = this.listPrompts();
+                } else if (req.url === '/prompts/get') {
+                    response = this.getPrompt(data.name, data.arguments);
+                } else if (req.url === '/cancel') {
+                    response = this.handleCancel(data);
+                } else {
+                    response = { error: 'Unknown endpoint' };
+                }
+                
+                res.setHeader('Content-Type', 'application/json');
+                res.writeHead(200);
+                res.end(JSON.stringify(response));
+            } catch (err) {
+                res.writeHead(400);
+                res.end(JSON.stringify({ error: 'Parse error' }));
+            }
         });
+    }
 
-        await this.tryListen();
+    // 重启 HTTP 服务，尽量沿用原端口；等待中的请求保留
+    async restart() {
+        const previousPort = this.port;
+        this.stop();
+        await this.start(previousPort || undefined);
+        logEvent('info', 'server.restarted', { previousPort, port: this.port });
     }
 
-    private tryListen(): Promise<void> {
+    getStatus(): ServerStatus {
+        const requests = Array.from(this.pendingRequests.values());
+        const pending = requests.filter(r => r.status === 'pending').length;
+        const installedVersion = MCPServer.readWrapperVersion(MCPServer.WRAPPER_FILE);
+        const bundledVersion = this.context
+            ? MCPServer.readWrapperVersion(vscode.Uri.joinPath(this.context.extensionUri, 'mcp-stdio-wrapper.js').fsPath)
+            : null;
+        return {
+            version: vscode.extensions.getExtension('fhyfhy17.windsurf-feedback-panel')?.packageJSON.version || '0.0.0',
+            pid: process.pid,
+            port: this.port,
+            fixedPort: this.isFixedPort(),
+            socketPath: this.socketPath,
+            workspaceName: vscode.workspace.name || '',
+            workspaceFolders: (vscode.workspace.workspaceFolders || []).map(f => f.uri.fsPath),
+            startedAt: this.startedAt,
+            uptimeMs: Date.now() - this.startedAt,
+            requests: { pending, settled: requests.length - pending },
+            mcpSessions: this.mcpSessions.size,
+            wrapper: {
+                path: MCPServer.WRAPPER_FILE,
+                installedVersion,
+                bundledVersion,
+                upToDate: installedVersion !== null && installedVersion === bundledVersion
+            }
+        };
+    }
+
+    // 从 wrapper 源码中读取 WRAPPER_VERSION，文件不存在或是旧版（没有该常量）时返回 null
+    private static readWrapperVersion(filePath: string): string | null {
+        try {
+            const match = /const WRAPPER_VERSION = '([^']+)'/.exec(fs.readFileSync(filePath, 'utf-8'));
+            return match ? match[1] : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private isAuthorized(req: http.IncomingMessage): boolean {
+        const header = req.headers['authorization'] || '';
+        const match = /^Bearer\s+(\S+)$/i.exec(header);
+        if (!match) {
+            return false;
+        }
+        const provided = Buffer.from(match[1]);
+        const expected = Buffer.from(this.token);
+        return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+    }
+
+    getToken(): string {
+        return this.token;
+    }
+
+    getPort(): number {
+        return this.port;
+    }
+
+    getSocketPath(): string | null {
+        return this.socketPath;
+    }
+
+    // 是否使用固定端口（URL 方式配置 MCP 时需要）
+    isFixedPort(): boolean {
+        return this.port !== 0 && this.port === this.getConfiguredPort();
+    }
+
+    private getConfiguredPort(): number {
+        return vscode.workspace.getConfiguration('feedbackPanel').get<number>('serverPort', 0);
+    }
+
+    private tryListen(port: number = this.getConfiguredPort()): Promise<void> {
         return new Promise((resolve) => {
             this.server?.removeAllListeners('error');
             this.server?.removeAllListeners('listening');
 
             this.server?.once('error', (err: NodeJS.ErrnoException) => {
                 console.error(`Failed to start server: ${err.message}`);
+                if (port !== 0 && err.code === 'EADDRINUSE') {
+                    // 固定端口被占用（例如另一个窗口），回退到随机端口
+                    vscode.window.showWarningMessage(
+                        `Panel Feedback: port ${port} is in use, falling back to a random port. URL-based MCP configs pointing at ${port} will reach another window.`
+                    );
+                    this.tryListen(0).then(resolve);
+                    return;
+                }
                 resolve();
             });
 
@@ -203,26 +736,47 @@ export class MCPServer {
                     this.port = addr.port;
                 }
                 console.log(`MCP Feedback Server running on port ${this.port}`);
+                logEvent('info', 'server.started', { port: this.port });
                 this.writePortFile();
                 resolve();
             });
 
-            this.server?.listen(0, '127.0.0.1');
+            this.server?.listen(port, '127.0.0.1');
         });
     }
 
+    private startSweeper() {
+        const timer = setInterval(() => this.sweepRequests(), MCPServer.SWEEP_INTERVAL);
+        this.disposables.push({ dispose: () => clearInterval(timer) });
+    }
+
     private async handleSubmit(data: any): Promise<any> {
-        const { requestId, params } = data;
+        const { requestId, params, client } = data;
+
+        const argError = MCPServer.validateToolArguments(params);
+        if (argError) {
+            return { status: 'error', error: `Invalid arguments for ${params?.name}: ${argError}`, code: -32602 };
+        }
+
+        // 软超时后再次调用：接管原来的请求，不重复显示问题
+        const existing = this.findResumableRequest(params);
+        if (existing) {
+            console.log(`[MCP] Resuming request ${existing.id}`);
+            logEvent('info', 'request.resumed', { requestId: existing.id, tool: params?.name, transport: 'wrapper' });
+            return { status: 'resumed', requestId: existing.id };
+        }
 
         const request: PendingRequest = {
             id: requestId,
             params,
             status: 'pending',
-            createdAt: Date.now()
+            createdAt: Date.now(),
+            client: MCPServer.toClientInfo(client)
         };
 
         this.pendingRequests.set(requestId, request);
         this.persistRequests();
+        this.logReceived(request, 'wrapper');
 
         this.processRequest(request);
 
@@ -237,25 +791,499 @@ export class MCPServer {
             return { status: 'error', error: 'Request not found' };
         }
 
+        if (request.status !== 'pending') {
+            this.consumeRequest(requestId);
+        } else {
+            request.lastPolledAt = Date.now();
+        }
+        return this.settledResponse(request);
+    }
+
+    private logReceived(request: PendingRequest, transport: 'wrapper' | 'http') {
+        logEvent('info', 'request.received', {
+            requestId: request.id,
+            tool: request.params?.name,
+            client: request.client?.name,
+            transport,
+            messageSize: JSON.stringify(request.params?.arguments || {}).length
+        });
+    }
+
+    // 可接管的请求：resume_token 指向的请求，或消息内容相同且已经没有连接在等待的请求
+    private findResumableRequest(params: any): PendingRequest | undefined {
+        const isFree = (request: PendingRequest) =>
+            request.status === 'pending' && !this.settledListeners.get(request.id)?.length;
+
+        const token = params?.arguments?.resume_token;
+        const byToken = token ? this.pendingRequests.get(token) : undefined;
+        if (byToken && byToken.params?.name === params?.name && isFree(byToken)) {
+            return byToken;
+        }
+
+        const key = MCPServer.resumeKey(params);
+        return Array.from(this.pendingRequests.values()).find(request =>
+            request.detachedAt !== undefined && isFree(request) && MCPServer.resumeKey(request.params) === key);
+    }
+
+    // panel_feedback 按消息文本匹配，其他工具按全部参数匹配
+    private static resumeKey(params: any): string {
+        const { resume_token, workspace, ...args } = params?.arguments || {};
+        const content = params?.name === 'panel_feedback' ? args.message : args;
+        return `${params?.name}:${JSON.stringify(content)}`;
+    }
+
+    // panel_notify：只在面板上追加一条状态消息，不等待用户
+    private handleNotify(params: any, client?: ClientInfo): any {
+        const { message, level } = params?.arguments || {};
+        const notifyLevel: NotifyLevel = ['info', 'success', 'warning', 'error'].includes(level) ? level : 'info';
+        logEvent('info', 'notify.shown', { level: notifyLevel, messageSize: String(message ?? '').length });
+        this.provider.notify(String(message ?? ''), notifyLevel, MCPServer.messageSource(params, client));
+        return { content: [{ type: 'text', text: '已显示在面板中' }] };
+    }
+
+    // 读取面板资源，未知 uri 返回 null
+    private readResource(uri: string): any {
+        const resource = MCP_RESOURCES.find(r => r.uri === uri);
+        if (!resource) {
+            return null;
+        }
+
+        let text: string;
+        switch (resource.name) {
+            case 'rules':
+                text = this.provider.getEnabledRules().map(rule => `- ${rule}`).join('\n');
+                break;
+            case 'starred':
+                text = JSON.stringify(this.provider.getStarredMessages(), null, 2);
+                break;
+            case 'history':
+                text = JSON.stringify(this.provider.getChatHistory(), null, 2);
+                break;
+            default:
+                text = JSON.stringify(this.provider.getQuickTemplates(), null, 2);
+                break;
+        }
+        return { contents: [{ uri, mimeType: resource.mimeType, text }] };
+    }
+
+    // 快捷模板作为 prompts 提供
+    private listPrompts(): any {
+        return { prompts: templatesToPrompts(this.provider.getQuickTemplates()).map(p => p.prompt) };
+    }
+
+    private getPrompt(name: string, args?: Record<string, string>): any {
+        const entry = templatesToPrompts(this.provider.getQuickTemplates()).find(p => p.prompt.name === name);
+        if (!entry) {
+            return { error: `Unknown prompt: ${name}`, code: -32602 };
+        }
+        try {
+            return {
+                description: entry.prompt.description,
+                messages: [{
+                    role: 'user',
+                    content: { type: 'text', text: renderPromptTemplate(entry.template.content, args) }
+                }]
+            };
+        } catch (err: any) {
+            return { error: err.message, code: -32602 };
+        }
+    }
+
+    // AI 客户端取消了调用：面板上标记为已取消，并结束等待中的连接
+    private handleCancel(data: any): any {
+        const { requestId, reason } = data;
+        const request = this.pendingRequests.get(requestId);
+
+        if (!request) {
+            return { status: 'error', error: 'Request not found' };
+        }
+
+        this.cancelRequest(request, reason);
+        return { status: 'cancelled' };
+    }
+
+    private cancelRequest(request: PendingRequest, reason?: string, kind: CancelKind = 'cancelled') {
+        if (request.status === 'pending') {
+            logEvent('info', 'request.cancelled', { requestId: request.id, reason, kind });
+            request.status = 'cancelled';
+            request.error = reason || 'Cancelled by client';
+            this.provider.cancelQuestion(request.id, reason, kind);
+            this.notifySettled(request);
+        }
+        this.consumeRequest(request.id);
+    }
+
+    // ========== 过期请求清理 ==========
+
+    private getSweepConfig() {
+        const config = vscode.workspace.getConfiguration('feedbackPanel');
+        return {
+            abandonedMs: config.get<number>('abandonedRequestTtlMinutes', 60) * 60000,
+            settledMs: config.get<number>('settledRequestTtlMinutes', 10) * 60000,
+            maxPersistedBytes: config.get<number>('maxPersistedRequestsKB', 2048) * 1024
+        };
+    }
+
+    // 定时清理：没有连接在等待的问题超过 TTL 视为 AI 已断开，结果无人领取的请求超过 TTL 直接移除
+    private sweepRequests() {
+        const { abandonedMs, settledMs, maxPersistedBytes } = this.getSweepConfig();
+        const now = Date.now();
+
+        for (const request of Array.from(this.pendingRequests.values())) {
+            if (request.status === 'pending') {
+                // 按最近一次活动计算：断开后又被 /poll 的请求不能按更早的断开时间过期
+                const idleSince = Math.max(request.createdAt, request.detachedAt ?? 0, request.lastPolledAt ?? 0);
+                if (!this.settledListeners.get(request.id)?.length && now - idleSince > abandonedMs) {
+                    this.expireRequest(request, 'ttl');
+                }
+            } else if (now - (request.settledAt ?? request.createdAt) > settledMs) {
+                logEvent('info', 'request.expired', { requestId: request.id, outcome: request.status, reason: 'ttl' });
+                this.consumeRequest(request.id);
+            }
+        }
+
+        // 持久化的请求超过大小上限时从最旧的开始移除，已完成的优先
+        const persisted = Array.from(this.pendingRequests.values())
+            .filter(r => r.transport !== 'http')
+            .sort((a, b) => Number(a.status === 'pending') - Number(b.status === 'pending') || a.createdAt - b.createdAt);
+        let size = Buffer.byteLength(JSON.stringify(persisted));
+        for (const request of persisted) {
+            if (size <= maxPersistedBytes) break;
+            size -= Buffer.byteLength(JSON.stringify(request));
+            if (request.status === 'pending') {
+                this.expireRequest(request, 'size');
+            } else {
+                logEvent('info', 'request.expired', { requestId: request.id, outcome: request.status, reason: 'size' });
+                this.consumeRequest(request.id);
+            }
+        }
+    }
+
+    private expireRequest(request: PendingRequest, reason: 'ttl' | 'size') {
+        logEvent('info', 'request.expired', { requestId: request.id, outcome: 'pending', reason });
+        this.cancelRequest(request, 'AI disconnected', 'disconnected');
+    }
+
+    // 长连接等待请求完成，期间定时发送心跳，替代旧版 wrapper 的高频 /poll
+    private async handleWait(req: http.IncomingMessage, res: http.ServerResponse) {
+        let requestId: string | undefined;
+        try {
+            requestId = JSON.parse(await this.readBody(req)).requestId;
+        } catch {
+            this.sendJson(res, 400, { error: 'Parse error' });
+            return;
+        }
+
+        const request = requestId ? this.pendingRequests.get(requestId) : undefined;
+        if (!request) {
+            this.sendJson(res, 200, { status: 'error', error: 'Request not found' });
+            return;
+        }
+        if (request.status !== 'pending') {
+            this.consumeRequest(request.id);
+            this.sendJson(res, 200, this.settledResponse(request));
+            return;
+        }
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive'
+        });
+        res.write(': connected\n\n');
+
+        const heartbeat = setInterval(() => {
+            this.writeSseEvent(res, 'heartbeat', { status: 'pending' });
+        }, MCPServer.WAIT_HEARTBEAT_INTERVAL);
+
+        const unsubscribe = this.onSettled(request, settled => {
+            clearInterval(heartbeat);
+            this.writeSseEvent(res, 'result', this.settledResponse(settled));
+            // 结果写出后才移除，连接中途断开时 wrapper 重连还能拿到
+            res.end(() => this.consumeRequest(settled.id));
+        });
+
+        res.on('close', () => {
+            clearInterval(heartbeat);
+            unsubscribe();
+            if (request.status === 'pending') {
+                request.detachedAt = Date.now();
+            }
+        });
+    }
+
+    // 与 /poll 相同格式的响应
+    private settledResponse(request: PendingRequest): any {
         if (request.status === 'completed') {
-            this.pendingRequests.delete(requestId);
-            this.persistRequests();
             return { status: 'completed', data: request.result };
-        } else if (request.status === 'error') {
-            this.pendingRequests.delete(requestId);
-            this.persistRequests();
+        } else if (request.status === 'error' || request.status === 'cancelled') {
             return { status: 'error', error: request.error };
         }
-
         return { status: 'pending' };
     }
 
+    // 结果已交付给 wrapper，移除请求
+    private consumeRequest(requestId: string) {
+        if (this.pendingRequests.delete(requestId)) {
+            this.persistRequests();
+        }
+    }
+
+    private writeSseEvent(res: http.ServerResponse, event: string, data: any) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+
+    // ========== MCP Streamable HTTP ==========
+
+    private readBody(req: http.IncomingMessage): Promise<string> {
+        return new Promise((resolve, reject) => {
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => resolve(body));
+            req.on('error', reject);
+        });
+    }
+
+    private sendJson(res: http.ServerResponse, statusCode: number, data: any) {
+        res.setHeader('Content-Type', 'application/json');
+        res.writeHead(statusCode);
+        res.end(JSON.stringify(data));
+    }
+
+    private async handleMcpHttp(req: http.IncomingMessage, res: http.ServerResponse) {
+        const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+        if (req.method === 'DELETE') {
+            if (sessionId) {
+                this.mcpSessions.delete(sessionId);
+            }
+            res.writeHead(200);
+            res.end();
+            return;
+        }
+
+        // 不提供服务端主动推送的 GET 流
+        if (req.method !== 'POST') {
+            res.writeHead(405, { Allow: 'POST, DELETE' });
+            res.end('Method Not Allowed');
+            return;
+        }
+
+        let payload: any;
+        try {
+            payload = JSON.parse(await this.readBody(req));
+        } catch {
+            this.sendJson(res, 400, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+            return;
+        }
+
+        const messages: any[] = Array.isArray(payload) ? payload : [payload];
+        const isInitialize = messages.some(m => m?.method === 'initialize');
+
+        // 会话已失效（例如扩展重启），客户端收到 404 后会重新 initialize
+        if (sessionId && !isInitialize && !this.mcpSessions.has(sessionId)) {
+            this.sendJson(res, 404, { jsonrpc: '2.0', id: null, error: { code: -32001, message: 'Session not found' } });
+            return;
+        }
+
+        for (const m of messages) {
+            if (m?.method === 'notifications/cancelled') {
+                this.handleMcpCancelled(sessionId, m.params);
+            }
+        }
+
+        // 只有通知或响应时直接返回 202
+        const requests = messages.filter(m => m?.method && m.id !== undefined && m.id !== null);
+        if (requests.length === 0) {
+            res.writeHead(202);
+            res.end();
+            return;
+        }
+
+        if (isInitialize) {
+            const newSessionId = crypto.randomUUID();
+            const init = messages.find(m => m?.method === 'initialize');
+            this.mcpSessions.set(newSessionId, MCPServer.toClientInfo(init?.params?.clientInfo));
+            res.setHeader('Mcp-Session-Id', newSessionId);
+        }
+
+        // 不需要等待用户的请求直接返回 JSON
+        if (!requests.some(m => m.method === 'tools/call')) {
+            const responses = await Promise.all(requests.map(m => this.handleMcpRequest(m, sessionId)));
+            this.sendJson(res, 200, Array.isArray(payload) ? responses : responses[0]);
+            return;
+        }
+
+        // tools/call 需要等待用户回复，使用 SSE 流返回结果
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive'
+        });
+        const keepAlive = setInterval(() => res.write(': keepalive\n\n'), MCPServer.SSE_KEEPALIVE_INTERVAL);
+        const notify = (notification: any) => this.writeSseEvent(res, 'message', notification);
+        // 客户端断开时不再等待，请求保留下来供重新调用时接管
+        const closed = new Promise<void>(resolve => res.on('close', () => {
+            clearInterval(keepAlive);
+            resolve();
+        }));
+        try {
+            await Promise.all(requests.map(async m => {
+                const response = await this.handleMcpRequest(m, sessionId, notify, closed);
+                // 被取消的调用不返回响应
+                if (response) {
+                    this.writeSseEvent(res, 'message', response);
+                }
+            }));
+        } finally {
+            clearInterval(keepAlive);
+            res.end();
+        }
+    }
+
+    private async handleMcpRequest(
+        message: any,
+        sessionId?: string,
+        notify?: (notification: any) => void,
+        closed?: Promise<void>
+    ): Promise<any> {
+        const { id, method, params } = message;
+
+        switch (method) {
+            case 'initialize': {
+                const ext = vscode.extensions.getExtension('fhyfhy17.windsurf-feedback-panel');
+                return {
+                    jsonrpc: '2.0',
+                    id,
+                    result: {
+                        protocolVersion: negotiateProtocolVersion(params?.protocolVersion),
+                        serverInfo: { name: SERVER_NAME, version: ext?.packageJSON.version || '0.0.0' },
+                        capabilities: { tools: {}, resources: {}, prompts: {} }
+                    }
+                };
+            }
+            case 'ping':
+                return { jsonrpc: '2.0', id, result: {} };
+            case 'tools/list':
+                return { jsonrpc: '2.0', id, result: { tools: MCP_TOOLS } };
+            case 'tools/call':
+                return this.handleMcpToolCall(id, params, sessionId, notify, closed);
+            case 'resources/list':
+                return { jsonrpc: '2.0', id, result: { resources: MCP_RESOURCES } };
+            case 'resources/read': {
+                const result = this.readResource(params?.uri);
+                return result
+                    ? { jsonrpc: '2.0', id, result }
+                    : { jsonrpc: '2.0', id, error: { code: -32002, message: 'Resource not found', data: { uri: params?.uri } } };
+            }
+            case 'prompts/list':
+                return { jsonrpc: '2.0', id, result: this.listPrompts() };
+            case 'prompts/get': {
+                const result = this.getPrompt(params?.name, params?.arguments);
+                return result.error
+                    ? { jsonrpc: '2.0', id, error: { code: result.code, message: result.error } }
+                    : { jsonrpc: '2.0', id, result };
+            }
+            default:
+                return { jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${method}` } };
+        }
+    }
+
+    private handleMcpCancelled(sessionId: string | undefined, params: any) {
+        const key = `${sessionId || ''}:${JSON.stringify(params?.requestId)}`;
+        const requestId = this.mcpCallRequests.get(key);
+        const request = requestId ? this.pendingRequests.get(requestId) : undefined;
+        if (request) {
+            this.cancelRequest(request, params?.reason);
+        }
+    }
+
+    private async handleMcpToolCall(
+        id: any,
+        params: any,
+        sessionId?: string,
+        notify?: (notification: any) => void,
+        closed?: Promise<void>
+    ): Promise<any> {
+        if (!MCP_TOOLS.some(t => t.name === params?.name)) {
+            return { jsonrpc: '2.0', id, error: { code: -32602, message: `Unknown tool: ${params?.name}` } };
+        }
+        if (params.name === 'panel_notify') {
+            return { jsonrpc: '2.0', id, result: this.handleNotify(params, sessionId ? this.mcpSessions.get(sessionId) : undefined) };
+        }
+        const argError = MCPServer.validateToolArguments(params);
+        if (argError) {
+            return { jsonrpc: '2.0', id, error: { code: -32602, message: `Invalid arguments for ${params.name}: ${argError}` } };
+        }
+
+        let request = this.findResumableRequest(params);
+        if (request) {
+            logEvent('info', 'request.resumed', { requestId: request.id, tool: params.name, transport: 'http' });
+        } else {
+            request = {
+                id: crypto.randomUUID(),
+                params,
+                status: 'pending',
+                createdAt: Date.now(),
+                transport: 'http',
+                client: sessionId ? this.mcpSessions.get(sessionId) : undefined
+            };
+            this.pendingRequests.set(request.id, request);
+            this.logReceived(request, 'http');
+            this.processRequest(request);
+        }
+        const callKey = `${sessionId || ''}:${JSON.stringify(id)}`;
+        this.mcpCallRequests.set(callKey, request.id);
+
+        // 客户端提供了 progressToken 时定时发送进度通知，避免客户端超时
+        const progressToken = params?._meta?.progressToken;
+        let progress = 0;
+        const progressTimer = progressToken !== undefined && notify
+            ? setInterval(() => notify({
+                jsonrpc: '2.0',
+                method: 'notifications/progress',
+                params: { progressToken, progress: ++progress, message: '等待用户回复...' }
+            }), MCPServer.WAIT_HEARTBEAT_INTERVAL)
+            : undefined;
+
+        const settled = await this.waitForSettled(request, closed);
+        clearInterval(progressTimer);
+        this.mcpCallRequests.delete(callKey);
+
+        // 连接已断开：与 /wait 相同，标记为可接管，之后无人接管时由定时清理处理
+        if (!settled) {
+            if (request.status === 'pending') {
+                request.detachedAt = Date.now();
+            }
+            return null;
+        }
+        this.consumeRequest(request.id);
+
+        if (settled.status === 'cancelled') {
+            return null;
+        }
+        if (settled.status === 'completed') {
+            return { jsonrpc: '2.0', id, result: settled.result };
+        }
+        return { jsonrpc: '2.0', id, error: { code: -32000, message: settled.error || 'Unknown error' } };
+    }
+
     stop() {
+        this.deleteRegistryEntry();
         this.deletePortFile();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
         
         if (this.server) {
             this.server.close();
             this.server = null;
         }
+        this.port = 0;
+        if (this.socketServer) {
+            // close 会删除 socket 文件
+            this.socketServer.close();
+            this.socketServer = null;
+            this.socketPath = null;
+        }
     }
 }
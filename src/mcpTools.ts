@@ -0,0 +1,192 @@
+// MCP 工具定义，供 MCPServer 的 Streamable HTTP 端点使用
+// 修改时请同步 mcp-stdio-wrapper.js 中的 TOOLS
+
+export const SERVER_NAME = 'panel-feedback';
+
+// 支持的协议版本，第一个为最新版本
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26'];
+
+// 客户端请求的版本受支持时原样返回，否则返回最新版本
+export function negotiateProtocolVersion(requested?: string): string {
+    if (requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)) {
+        return requested;
+    }
+    return SUPPORTED_PROTOCOL_VERSIONS[0];
+}
+
+export const MCP_TOOLS = [
+    {
+        name: 'panel_feedback',
+        description: '在 IDE 侧边栏显示消息并获取用户反馈。强烈建议提供 predefined_options 让用户快速选择，提升交互体验。支持图片上传。',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                message: {
+                    type: 'string',
+                    description: '要显示给用户的消息，支持 Markdown 格式'
+                },
+                predefined_options: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: '预定义的快捷选项按钮列表，用户可以一键点击选择。建议提供 2-5 个常用选项，如 ["继续", "取消", "查看详情"] 或 ["是", "否"]。这能大幅提升用户体验！'
+                },
+                resume_token: {
+                    type: 'string',
+                    description: '上次调用软超时返回的 resume_token，传入后继续等待原来的问题，不会重复显示'
+                },
+                conversation_id: {
+                    type: 'string',
+                    description: '当前对话的标识（如会话 id）。同时运行多个 AI 对话时，面板上会显示在消息的来源徽标中'
+                },
+                conversation_title: {
+                    type: 'string',
+                    description: '当前对话的简短标题（如 "refactor-auth"），优先于 conversation_id 显示在来源徽标中'
+                }
+            },
+            required: ['message']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                selectedOptions: { type: 'array', items: { type: 'string' }, description: '用户点击的 predefined_options' },
+                text: { type: 'string', description: '用户输入的文本（不含附加的 Rules）' },
+                mentionedFiles: { type: 'array', items: { type: 'string' }, description: '用户 @ 引用或拖入的文件绝对路径' },
+                images: { type: 'integer', description: '附带的图片数量，图片本身在 content 中' },
+                endedByUser: { type: 'boolean', description: '用户点击了结束对话' },
+                rulesAppended: { type: 'boolean', description: '文本 content 末尾是否附加了 Rules' },
+                timedOut: { type: 'boolean', description: '等待超时，用户尚未回复' },
+                resumeToken: { type: 'string', description: '超时时返回，再次调用时作为 resume_token 传入' }
+            },
+            required: ['selectedOptions', 'text', 'mentionedFiles', 'images', 'endedByUser', 'rulesAppended']
+        }
+    },
+    {
+        name: 'panel_form',
+        description: '在 IDE 侧边栏显示一个表单，一次性向用户收集多个结构化的值（文本、数字、开关、下拉选项）。返回 JSON 文本，同时提供 structuredContent。',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                message: {
+                    type: 'string',
+                    description: '显示在表单上方的说明，支持 Markdown 格式'
+                },
+                schema: {
+                    type: 'object',
+                    description: '表单定义，JSON Schema 子集：{ "type": "object", "properties": { 字段名: { "type": "string" | "number" | "integer" | "boolean", "title", "description", "enum", "enumNames", "default", "minimum", "maximum", "minLength", "maxLength", "pattern" } }, "required": [字段名] }。带 enum 的字段显示为下拉框，boolean 显示为复选框',
+                    properties: {
+                        type: { type: 'string', enum: ['object'] },
+                        properties: { type: 'object' },
+                        required: { type: 'array', items: { type: 'string' } }
+                    },
+                    required: ['properties']
+                },
+                resume_token: {
+                    type: 'string',
+                    description: '上次调用软超时返回的 resume_token，传入后继续等待原来的问题，不会重复显示'
+                },
+                conversation_id: {
+                    type: 'string',
+                    description: '当前对话的标识（如会话 id）。同时运行多个 AI 对话时，面板上会显示在消息的来源徽标中'
+                },
+                conversation_title: {
+                    type: 'string',
+                    description: '当前对话的简短标题（如 "refactor-auth"），优先于 conversation_id 显示在来源徽标中'
+                }
+            },
+            required: ['schema']
+        }
+    },
+    {
+        name: 'panel_confirm',
+        description: '执行危险或不可逆的操作（如 git push --force、删除文件、数据库迁移）前请求用户批准。用户可以在批准前修改命令，返回 { approved, editedCommand, reason }，批准后请执行 editedCommand。',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                action: {
+                    type: 'string',
+                    description: '要执行的操作及其影响，支持 Markdown 格式'
+                },
+                command: {
+                    type: 'string',
+                    description: '要执行的命令，用户可以在批准前修改'
+                },
+                risk: {
+                    type: 'string',
+                    enum: ['low', 'medium', 'high'],
+                    description: '风险等级，默认 medium'
+                },
+                resume_token: {
+                    type: 'string',
+                    description: '上次调用软超时返回的 resume_token，传入后继续等待原来的问题，不会重复显示'
+                },
+                conversation_id: {
+                    type: 'string',
+                    description: '当前对话的标识（如会话 id）。同时运行多个 AI 对话时，面板上会显示在消息的来源徽标中'
+                },
+                conversation_title: {
+                    type: 'string',
+                    description: '当前对话的简短标题（如 "refactor-auth"），优先于 conversation_id 显示在来源徽标中'
+                }
+            }
+        }
+    },
+    {
+        name: 'panel_notify',
+        description: '在 IDE 侧边栏追加一条状态消息（如"第 3 步已完成"），立即返回，不等待用户回复。需要用户回复时请使用 panel_feedback。',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                message: {
+                    type: 'string',
+                    description: '状态消息，支持 Markdown 格式'
+                },
+                level: {
+                    type: 'string',
+                    enum: ['info', 'success', 'warning', 'error'],
+                    description: '消息级别，默认 info'
+                },
+                conversation_id: {
+                    type: 'string',
+                    description: '当前对话的标识（如会话 id）。同时运行多个 AI 对话时，面板上会显示在消息的来源徽标中'
+                },
+                conversation_title: {
+                    type: 'string',
+                    description: '当前对话的简短标题（如 "refactor-auth"），优先于 conversation_id 显示在来源徽标中'
+                }
+            },
+            required: ['message']
+        }
+    }
+];
+
+// 面板数据以只读资源的形式提供给 AI（wrapper 的 resources/list 转发到 MCPServer，无需同步）
+export const MCP_RESOURCES = [
+    {
+        uri: 'panel-feedback://rules',
+        name: 'rules',
+        title: '项目 Rules',
+        description: '当前工作区已启用的 Rules/Memory，每条一行',
+        mimeType: 'text/markdown'
+    },
+    {
+        uri: 'panel-feedback://starred',
+        name: 'starred',
+        title: '收藏的消息',
+        description: '用户收藏的 AI 消息',
+        mimeType: 'application/json'
+    },
+    {
+        uri: 'panel-feedback://history',
+        name: 'history',
+        title: '对话历史',
+        description: '面板中当前的对话记录（图片只保留数量）',
+        mimeType: 'application/json'
+    },
+    {
+        uri: 'panel-feedback://templates',
+        name: 'templates',
+        title: '快捷模板',
+        description: '用户保存的快捷回复模板',
+        mimeType: 'application/json'
+    }
+];
@@ -0,0 +1,83 @@
+// 在当前对话、历史会话和收藏中全文搜索消息
+
+export type SearchScope = 'current' | 'session' | 'starred';
+
+export interface SearchableMessage {
+    id: string;
+    role: 'ai' | 'user';
+    content: string;
+    timestamp: number;
+    source?: { client?: string };
+}
+
+export interface SearchSource {
+    scope: SearchScope;
+    sessionId?: string;
+    messages: SearchableMessage[];
+}
+
+export interface SearchFilters {
+    role?: 'ai' | 'user';
+    since?: number;  // 只搜索该时间之后的消息
+    client?: string;
+}
+
+export interface SearchResult {
+    scope: SearchScope;
+    sessionId?: string;
+    msgId: string;
+    role: 'ai' | 'user';
+    timestamp: number;
+    client?: string;
+    snippet: string;
+}
+
+const SNIPPET_BEFORE = 40;
+const SNIPPET_AFTER = 100;
+
+// 按空白拆分为多个关键词，全部出现才算匹配，不区分大小写
+export function parseQuery(query: string): string[] {
+    return Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+}
+
+// 截取第一个关键词附近的文字
+function makeSnippet(content: string, index: number): string {
+    const text = content.replace(/\s+/g, ' ');
+    const start = Math.max(0, index - SNIPPET_BEFORE);
+    const end = Math.min(text.length, index + SNIPPET_AFTER);
+    return (start > 0 ? '…' : '') + text.substring(start, end) + (end < text.length ? '…' : '');
+}
+
+// 同一条消息在多个来源中出现时只保留第一个来源，结果按时间倒序
+export function searchMessages(sources: SearchSource[], query: string, filters: SearchFilters = {}, limit = 100): SearchResult[] {
+    const terms = parseQuery(query);
+    if (terms.length === 0) {
+        return [];
+    }
+
+    const seen = new Set<string>();
+    const results: SearchResult[] = [];
+    for (const source of sources) {
+        for (const msg of source.messages) {
+            if (seen.has(msg.id)) continue;
+            if (filters.role && msg.role !== filters.role) continue;
+            if (filters.since && msg.timestamp < filters.since) continue;
+            if (filters.client && msg.source?.client !== filters.client) continue;
+
+            const text = (msg.content || '').replace(/\s+/g, ' ').toLowerCase();
+            if (!terms.every(term => text.includes(term))) continue;
+
+            seen.add(msg.id);
+            results.push({
+                scope: source.scope,
+                sessionId: source.sessionId,
+                msgId: msg.id,
+                role: msg.role,
+                timestamp: msg.timestamp,
+                client: msg.source?.client,
+                snippet: makeSnippet(msg.content, text.indexOf(terms[0]))
+            });
+        }
+    }
+    return results.sort((a, b) => b.timestamp - a.timestamp).slice(0, limit);
+}